@@ -0,0 +1,215 @@
+#!/usr/bin/env node
+import { createServer } from 'node:http';
+import { DEFAULT_MARKET_SETTINGS, INSTRUMENTS, createMarket, decimalsOf } from './market.mjs';
+import { acceptWebSocket } from './websocket.mjs';
+
+// Local stand-in for Binance market data: exchange info, the REST depth snapshot and the
+// combined depth + trade stream, served from seeded synthetic books. Point the app's data
+// source at it to work offline or to exercise resyncs deterministically.
+//
+//   npm run mock -- --seed 7 --gap-rate 0.05 --disconnect-rate 0.01
+
+const OPTIONS = {
+  port: { default: 8787, help: 'HTTP and WebSocket port' },
+  seed: { default: DEFAULT_MARKET_SETTINGS.seed, help: 'Seed for every synthetic book' },
+  interval: { default: 100, help: 'Milliseconds between depth updates' },
+  'gap-rate': { default: 0, help: 'Dropped depth updates per second (sequence gaps)' },
+  'disconnect-rate': { default: 0, help: 'Stream disconnects per second' },
+  'snapshot-delay': { default: 0, help: 'Milliseconds before the REST snapshot answers' },
+  volatility: { default: DEFAULT_MARKET_SETTINGS.volatility, help: 'Fair price deviation per second, in ticks' },
+  'add-rate': { default: DEFAULT_MARKET_SETTINGS.addRate, help: 'Limit orders per second' },
+  'cancel-rate': { default: DEFAULT_MARKET_SETTINGS.cancelRate, help: 'Cancels per second' },
+  'trade-rate': { default: DEFAULT_MARKET_SETTINGS.marketOrderRate, help: 'Market orders per second' },
+  'wall-rate': { default: DEFAULT_MARKET_SETTINGS.wallRate, help: 'New walls per second' }
+};
+
+const parseArgs = (args) => {
+  const values = Object.fromEntries(Object.entries(OPTIONS).map(([name, option]) => [name, option.default]));
+  for (let index = 0; index < args.length; index++) {
+    const [flag, inline] = args[index].split('=');
+    const name = flag.replace(/^--/, '');
+    if (name === 'help') {
+      console.log('Usage: npm run mock -- [options]\n');
+      Object.entries(OPTIONS).forEach(([option, { default: value, help }]) => {
+        console.log(`  --${option.padEnd(16)} ${help} (default ${value})`);
+      });
+      process.exit(0);
+    }
+    if (!(name in OPTIONS)) throw new Error(`Unknown option ${flag}`);
+    const value = Number(inline ?? args[++index]);
+    if (!Number.isFinite(value)) throw new Error(`${flag} needs a number`);
+    values[name] = value;
+  }
+  return values;
+};
+
+const options = parseArgs(process.argv.slice(2));
+const marketSettings = {
+  ...DEFAULT_MARKET_SETTINGS,
+  seed: options.seed,
+  volatility: options.volatility,
+  addRate: options['add-rate'],
+  cancelRate: options['cancel-rate'],
+  marketOrderRate: options['trade-rate'],
+  wallRate: options['wall-rate']
+};
+
+// symbol -> { market, clients }. A market starts on first use and keeps running, so its
+// sequence of books depends only on the seed and how many steps it has taken.
+const markets = new Map();
+
+const getMarket = (symbol) => {
+  let entry = markets.get(symbol);
+  if (!entry) {
+    entry = { market: createMarket(symbol, marketSettings), clients: new Set() };
+    markets.set(symbol, entry);
+    console.log(`${symbol}: market started (seed ${options.seed})`);
+  }
+  return entry;
+};
+
+const depthEvent = (symbol, diff, timestamp) => ({
+  e: 'depthUpdate',
+  E: timestamp,
+  s: symbol,
+  U: diff.firstUpdateId,
+  u: diff.lastUpdateId,
+  b: diff.bids,
+  a: diff.asks
+});
+
+const tradeEvent = (symbol, trade) => ({
+  e: 'trade',
+  E: trade.timestamp,
+  s: symbol,
+  t: trade.id,
+  p: trade.price,
+  q: trade.quantity,
+  T: trade.timestamp,
+  // The buyer was the maker when a seller hit the bid
+  m: trade.aggressor === 'sell'
+});
+
+const step = () => {
+  const timestamp = Date.now();
+  const seconds = options.interval / 1000;
+
+  markets.forEach(({ market, clients }, symbol) => {
+    const { diff, trades } = market.step(options.interval, timestamp);
+    // Drawn every step, whether or not anyone listens, to keep runs reproducible
+    const dropUpdate = market.random.chance(options['gap-rate'] * seconds);
+    const disconnect = market.random.chance(options['disconnect-rate'] * seconds);
+
+    if (dropUpdate && clients.size > 0) console.log(`${symbol}: dropped update ${diff.firstUpdateId}-${diff.lastUpdateId}`);
+    clients.forEach(client => {
+      if (!dropUpdate && client.streams.has('depth')) client.send('depth', depthEvent(symbol, diff, timestamp));
+      if (client.streams.has('trade')) trades.forEach(trade => client.send('trade', tradeEvent(symbol, trade)));
+    });
+
+    if (disconnect && clients.size > 0) {
+      console.log(`${symbol}: dropping ${clients.size} stream connection(s)`);
+      clients.forEach(client => client.socket.drop());
+    }
+  });
+};
+
+// The listed symbols in Binance's exchange info shape, trimmed to the fields the app reads
+const exchangeInfo = () => ({
+  timezone: 'UTC',
+  serverTime: Date.now(),
+  symbols: Object.entries(INSTRUMENTS).map(([symbol, instrument]) => ({
+    symbol,
+    status: 'TRADING',
+    baseAsset: instrument.baseAsset,
+    quoteAsset: instrument.quoteAsset,
+    filters: [
+      { filterType: 'PRICE_FILTER', tickSize: instrument.tickSize.toFixed(decimalsOf(instrument.tickSize)) },
+      { filterType: 'LOT_SIZE', stepSize: instrument.lotSize.toFixed(decimalsOf(instrument.lotSize)) }
+    ]
+  }))
+});
+
+const sendJson = (response, status, body) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*'
+  });
+  response.end(JSON.stringify(body));
+};
+
+const server = createServer((request, response) => {
+  const url = new URL(request.url ?? '/', 'http://localhost');
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Methods': 'GET' });
+    response.end();
+    return;
+  }
+
+  if (url.pathname === '/api/v3/depth') {
+    const symbol = url.searchParams.get('symbol')?.toUpperCase();
+    if (!symbol) {
+      sendJson(response, 400, { code: -1102, msg: "Mandatory parameter 'symbol' was not sent." });
+      return;
+    }
+    const limit = Math.min(Number(url.searchParams.get('limit') ?? 100) || 100, 5000);
+    const { market } = getMarket(symbol);
+    setTimeout(() => sendJson(response, 200, market.snapshot(limit)), options['snapshot-delay']);
+    return;
+  }
+
+  if (url.pathname === '/api/v3/exchangeInfo') {
+    sendJson(response, 200, exchangeInfo());
+    return;
+  }
+
+  if (url.pathname === '/health') {
+    sendJson(response, 200, { seed: options.seed, symbols: [...markets.keys()] });
+    return;
+  }
+
+  sendJson(response, 404, { code: -1, msg: `No mock for ${url.pathname}` });
+});
+
+// Combined streams (/stream?streams=btcusdt@depth/btcusdt@trade) wrap each event as
+// { stream, data }; raw streams (/ws/btcusdt@depth) send the bare event.
+server.on('upgrade', (request, socket) => {
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  const combined = url.pathname === '/stream';
+  const names = combined
+    ? (url.searchParams.get('streams') ?? '').split('/').filter(Boolean)
+    : url.pathname.startsWith('/ws/') ? [url.pathname.slice(4)] : [];
+
+  if (names.length === 0) {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+    return;
+  }
+
+  const ws = acceptWebSocket(request, socket);
+  if (!ws) return;
+
+  // One client entry per symbol, each listening to the stream types requested for it
+  const bySymbol = new Map();
+  names.forEach(name => {
+    const [symbol, type] = name.split('@');
+    const streams = bySymbol.get(symbol.toUpperCase()) ?? new Set();
+    streams.add(type);
+    bySymbol.set(symbol.toUpperCase(), streams);
+  });
+
+  bySymbol.forEach((streams, symbol) => {
+    const { clients } = getMarket(symbol);
+    const client = {
+      socket: ws,
+      streams,
+      send: (type, data) => ws.send(JSON.stringify(combined ? { stream: `${symbol.toLowerCase()}@${type}`, data } : data))
+    };
+    clients.add(client);
+    ws.onClose(() => clients.delete(client));
+  });
+});
+
+server.listen(options.port, () => {
+  console.log(`Mock exchange on http://localhost:${options.port} (REST /api/v3/exchangeInfo and /api/v3/depth, WebSocket /stream)`);
+  setInterval(step, options.interval);
+});
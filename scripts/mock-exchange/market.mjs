@@ -0,0 +1,233 @@
+import { createRandom, hashString } from './random.mjs';
+
+// Synthetic order book for one symbol. A fair price random-walks; limit orders arrive
+// and cancel as Poisson processes around it, market orders and price moves through
+// resting levels print trades, and occasional walls are placed and later pulled.
+// Prices are kept as integer ticks so levels never suffer float drift.
+
+// Starting mid and trading rules for the symbols the mock lists; anything else gets a generic book
+export const INSTRUMENTS = {
+  BTCUSDT: { baseAsset: 'BTC', quoteAsset: 'USDT', mid: 60000, tickSize: 0.01, lotSize: 0.00001 },
+  ETHUSDT: { baseAsset: 'ETH', quoteAsset: 'USDT', mid: 3000, tickSize: 0.01, lotSize: 0.0001 },
+  ADAUSDT: { baseAsset: 'ADA', quoteAsset: 'USDT', mid: 0.45, tickSize: 0.0001, lotSize: 0.1 },
+  DOTUSDT: { baseAsset: 'DOT', quoteAsset: 'USDT', mid: 7, tickSize: 0.001, lotSize: 0.01 },
+  SOLUSDT: { baseAsset: 'SOL', quoteAsset: 'USDT', mid: 150, tickSize: 0.01, lotSize: 0.001 },
+  ETHBTC: { baseAsset: 'ETH', quoteAsset: 'BTC', mid: 0.05, tickSize: 0.00001, lotSize: 0.0001 },
+  BTCEUR: { baseAsset: 'BTC', quoteAsset: 'EUR', mid: 55000, tickSize: 0.01, lotSize: 0.00001 }
+};
+const GENERIC_INSTRUMENT = { mid: 100, tickSize: 0.01, lotSize: 0.001 };
+
+// Levels further than this from the fair price are dropped from the book
+const MAX_DISTANCE = 400;
+const INITIAL_DEPTH = 150;
+
+export const DEFAULT_MARKET_SETTINGS = {
+  seed: 1,
+  // Per second
+  addRate: 60,
+  cancelRate: 45,
+  marketOrderRate: 4,
+  wallRate: 0.05,
+  // Standard deviation of the fair price per second, in ticks
+  volatility: 6,
+  // Mean distance of new orders from the fair price, in ticks
+  meanDistance: 25,
+  // Mean size of a resting order, in lots of the typical level
+  meanSize: 1,
+  wallSize: 25,
+  // Mean lifetime of a wall before it is pulled, in seconds
+  wallLifetime: 20
+};
+
+export const decimalsOf = (step) => Math.max(0, -Math.floor(Math.log10(step) + 1e-9));
+
+export const createMarket = (symbol, settings = DEFAULT_MARKET_SETTINGS) => {
+  const instrument = INSTRUMENTS[symbol] ?? GENERIC_INSTRUMENT;
+  const random = createRandom(settings.seed ^ hashString(symbol));
+  const priceDecimals = decimalsOf(instrument.tickSize);
+  // A typical level holds roughly $20k at the starting price
+  const typicalSize = Math.max(instrument.lotSize, 20000 / instrument.mid);
+  const quantityDecimals = decimalsOf(instrument.lotSize);
+
+  let fair = Math.round(instrument.mid / instrument.tickSize);
+  const bids = new Map();
+  const asks = new Map();
+  let walls = [];
+  let updateId = 1000;
+  let tradeId = 1;
+
+  // Changes since the last step, keyed by tick, so each level appears once per diff
+  let changedBids = new Map();
+  let changedAsks = new Map();
+
+  const roundQuantity = (quantity) => Number(quantity.toFixed(quantityDecimals));
+  const orderSize = (scale = 1) => roundQuantity(typicalSize * scale * random.exponential(settings.meanSize) + instrument.lotSize);
+
+  const setLevel = (side, tick, quantity) => {
+    const levels = side === 'bid' ? bids : asks;
+    const changed = side === 'bid' ? changedBids : changedAsks;
+    const next = roundQuantity(Math.max(0, quantity));
+    if (next > 0) levels.set(tick, next);
+    else levels.delete(tick);
+    changed.set(tick, next);
+  };
+
+  const bestTick = (side) => {
+    const levels = side === 'bid' ? bids : asks;
+    let best;
+    levels.forEach((_, tick) => {
+      if (best === undefined || (side === 'bid' ? tick > best : tick < best)) best = tick;
+    });
+    return best;
+  };
+
+  // Takes `quantity` out of the opposite side from the best level outwards, printing trades
+  const executeMarketOrder = (aggressor, quantity, timestamp, trades) => {
+    const side = aggressor === 'buy' ? 'ask' : 'bid';
+    const levels = side === 'bid' ? bids : asks;
+    let remaining = quantity;
+
+    while (remaining > 0 && levels.size > 0) {
+      const tick = bestTick(side);
+      const resting = levels.get(tick);
+      const filled = Math.min(resting, remaining);
+      setLevel(side, tick, resting - filled);
+      remaining -= filled;
+      trades.push({ id: tradeId++, tick, quantity: roundQuantity(filled), aggressor, timestamp });
+    }
+  };
+
+  // The fair price moving through resting orders fills them
+  const sweepCrossed = (timestamp, trades) => {
+    bids.forEach((quantity, tick) => {
+      if (tick >= fair) {
+        setLevel('bid', tick, 0);
+        trades.push({ id: tradeId++, tick, quantity, aggressor: 'sell', timestamp });
+      }
+    });
+    asks.forEach((quantity, tick) => {
+      if (tick <= fair) {
+        setLevel('ask', tick, 0);
+        trades.push({ id: tradeId++, tick, quantity, aggressor: 'buy', timestamp });
+      }
+    });
+  };
+
+  const trimFar = () => {
+    bids.forEach((_, tick) => {
+      if (fair - tick > MAX_DISTANCE) setLevel('bid', tick, 0);
+    });
+    asks.forEach((_, tick) => {
+      if (tick - fair > MAX_DISTANCE) setLevel('ask', tick, 0);
+    });
+  };
+
+  const addOrder = (side, distance, quantity) => {
+    const tick = side === 'bid' ? fair - distance : fair + distance;
+    const levels = side === 'bid' ? bids : asks;
+    setLevel(side, tick, (levels.get(tick) ?? 0) + quantity);
+    return tick;
+  };
+
+  const cancelOrder = () => {
+    const side = random.chance(0.5) ? 'bid' : 'ask';
+    const levels = side === 'bid' ? bids : asks;
+    const distance = 1 + Math.floor(random.exponential(settings.meanDistance));
+    const tick = side === 'bid' ? fair - distance : fair + distance;
+    const resting = levels.get(tick);
+    if (resting === undefined || walls.some(wall => wall.side === side && wall.tick === tick)) return;
+    setLevel(side, tick, random.chance(0.4) ? 0 : resting * random.next());
+  };
+
+  const spawnWall = (timestamp) => {
+    const side = random.chance(0.5) ? 'bid' : 'ask';
+    const distance = random.integer(5, 40);
+    const quantity = orderSize(settings.wallSize);
+    const tick = addOrder(side, distance, quantity);
+    walls.push({ side, tick, quantity, pullAt: timestamp + random.exponential(settings.wallLifetime) * 1000 });
+  };
+
+  // Walls that ran their course are pulled; walls the price ran through are simply gone
+  const expireWalls = (timestamp) => {
+    walls = walls.filter(wall => {
+      const levels = wall.side === 'bid' ? bids : asks;
+      const resting = levels.get(wall.tick);
+      if (resting === undefined) return false;
+      if (timestamp < wall.pullAt) return true;
+      setLevel(wall.side, wall.tick, resting - wall.quantity);
+      return false;
+    });
+  };
+
+  const formatLevels = (changes) =>
+    [...changes].map(([tick, quantity]) => [(tick * instrument.tickSize).toFixed(priceDecimals), quantity.toFixed(quantityDecimals)]);
+
+  for (let distance = 1; distance <= INITIAL_DEPTH; distance++) {
+    addOrder('bid', distance, orderSize());
+    addOrder('ask', distance, orderSize());
+  }
+  changedBids = new Map();
+  changedAsks = new Map();
+
+  return {
+    symbol,
+    instrument,
+
+    // Advances the market by `elapsedMs` and returns the diff and trades it produced
+    step: (elapsedMs, timestamp) => {
+      const seconds = elapsedMs / 1000;
+      const trades = [];
+
+      fair += Math.round(random.gaussian() * settings.volatility * Math.sqrt(seconds));
+      sweepCrossed(timestamp, trades);
+
+      for (let count = random.poisson(settings.addRate * seconds); count > 0; count--) {
+        const side = random.chance(0.5) ? 'bid' : 'ask';
+        addOrder(side, 1 + Math.floor(random.exponential(settings.meanDistance)), orderSize());
+      }
+      for (let count = random.poisson(settings.cancelRate * seconds); count > 0; count--) cancelOrder();
+      for (let count = random.poisson(settings.marketOrderRate * seconds); count > 0; count--) {
+        executeMarketOrder(random.chance(0.5) ? 'buy' : 'sell', orderSize(0.5), timestamp, trades);
+      }
+      if (random.chance(settings.wallRate * seconds)) spawnWall(timestamp);
+      expireWalls(timestamp);
+      trimFar();
+
+      const changes = changedBids.size + changedAsks.size;
+      const firstUpdateId = updateId + 1;
+      updateId += Math.max(1, changes);
+      const diff = {
+        firstUpdateId,
+        lastUpdateId: updateId,
+        bids: formatLevels(changedBids),
+        asks: formatLevels(changedAsks)
+      };
+      changedBids = new Map();
+      changedAsks = new Map();
+
+      return {
+        diff,
+        trades: trades.map(trade => ({
+          id: trade.id,
+          price: (trade.tick * instrument.tickSize).toFixed(priceDecimals),
+          quantity: trade.quantity.toFixed(quantityDecimals),
+          aggressor: trade.aggressor,
+          timestamp: trade.timestamp
+        }))
+      };
+    },
+
+    // Best `limit` levels per side, as the REST depth endpoint returns them
+    snapshot: (limit) => {
+      const sorted = (levels, descending) =>
+        [...levels].sort(([a], [b]) => (descending ? b - a : a - b)).slice(0, limit);
+      return {
+        lastUpdateId: updateId,
+        bids: formatLevels(sorted(bids, true)),
+        asks: formatLevels(sorted(asks, false))
+      };
+    },
+
+    random
+  };
+};
@@ -0,0 +1,49 @@
+// Seeded randomness, so a given seed replays the same market tick for tick
+
+// mulberry32: small, fast and good enough for synthetic order flow
+export const createRandom = (seed) => {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const gaussian = () => {
+    const u = 1 - next();
+    const v = next();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+
+  return {
+    next,
+    gaussian,
+    chance: (probability) => next() < probability,
+    integer: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    exponential: (mean) => -Math.log(1 - next()) * mean,
+    // Knuth's method; rates here stay small enough per step for it to be cheap
+    poisson: (mean) => {
+      const limit = Math.exp(-mean);
+      let count = 0;
+      let product = next();
+      while (product > limit) {
+        count++;
+        product *= next();
+      }
+      return count;
+    }
+  };
+};
+
+// FNV-1a, to give every symbol its own stream derived from the global seed
+export const hashString = (text) => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
@@ -0,0 +1,119 @@
+import { createHash } from 'node:crypto';
+
+// Just enough of RFC 6455 for a market-data stream: the handshake, unfragmented text
+// frames out, and ping/close handling in. Keeps the mock free of dependencies.
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Client frames are always masked; returns null until a whole frame is buffered
+const decodeFrame = (buffer) => {
+  if (buffer.length < 2) return null;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+
+  const maskOffset = offset;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    for (let index = 0; index < payload.length; index++) payload[index] ^= buffer[maskOffset + (index % 4)];
+  }
+  return { opcode, payload, size: offset + length };
+};
+
+// Completes the upgrade and returns a socket wrapper, or null if the request wasn't a WebSocket handshake
+export const acceptWebSocket = (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (!key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return null;
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+
+  let open = true;
+  let pending = Buffer.alloc(0);
+  const closeHandlers = [];
+
+  const close = (code = 1000) => {
+    if (!open) return;
+    open = false;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    socket.end(encodeFrame(OPCODE_CLOSE, payload));
+  };
+
+  socket.on('data', (chunk) => {
+    pending = Buffer.concat([pending, chunk]);
+    for (let frame = decodeFrame(pending); frame; frame = decodeFrame(pending)) {
+      pending = pending.subarray(frame.size);
+      if (frame.opcode === OPCODE_PING && open) socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+      if (frame.opcode === OPCODE_CLOSE) close();
+    }
+  });
+
+  const finish = () => {
+    if (closeHandlers.length === 0) return;
+    open = false;
+    closeHandlers.splice(0).forEach(handler => handler());
+  };
+  socket.on('close', finish);
+  socket.on('error', finish);
+
+  return {
+    get open() {
+      return open;
+    },
+    send: (text) => {
+      if (open) socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text)));
+    },
+    close,
+    // Abrupt drop without a close frame, like a network failure
+    drop: () => {
+      open = false;
+      socket.destroy();
+    },
+    onClose: (handler) => closeHandlers.push(handler)
+  };
+};
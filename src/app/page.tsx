@@ -1,559 +1,243 @@
 'use client';
 
-import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import { Play, Pause, RotateCcw, Filter, Moon, Sun } from 'lucide-react';
+import { HistorySettings, OrderbookData, Venue, VenueOrderbook } from '@/types/orderbook';
+import { useOrderbookWebSocket } from '@/hooks/useOrderbookWebSocket';
+import { useInstruments } from '@/hooks/useInstruments';
+import { usePersistedViewState, useSavedLayouts } from '@/hooks/useViewState';
+import { BUCKET_MULTIPLIERS, aggregateHistory, aggregateOrderbooks, autoBucketSize } from '@/lib/orderbook/aggregate';
+import { depthCurve } from '@/lib/orderbook/depth';
+import { WallDetectionSettings, WallStatus, WallThresholdMode, trackLiquidityWalls } from '@/lib/orderbook/liquidityWalls';
+import { BookMetrics, MetricSettings, computeBookMetrics, metricsSeries } from '@/lib/orderbook/metrics';
+import { DEFAULT_FLOW_HINTS, classifyDepthChanges, detectFlowHints, summarizeFlow } from '@/lib/orderbook/tradeFlow';
+import { bookAt, historyUntil, tradesUntil } from '@/lib/orderbook/timeline';
+import { notionalLayer, peakLevelQuantity } from '@/lib/orderbook/normalize';
+import {
+  DEFAULT_MOCK_EXCHANGE_URL,
+  MOCK_EXCHANGE_BY_DEFAULT,
+  formatPrice,
+  formatQuantity,
+  formatQuote,
+  guessInstrument,
+  mockExchangeEndpoints,
+  snapToTick
+} from '@/lib/venues';
+import { DEFAULT_LEVEL_FILTERS, LevelFilters, SideFilter, describeFilters, filterBook, hasActiveFilters } from '@/lib/orderbook/filters';
+import { PriceAxisMode, PriceAxisSettings, niceCeil } from '@/lib/visualization/priceAxis';
+import { ComparisonPaneSettings, PaneCount, ViewSync, normalizedPriceAxis } from '@/lib/visualization/layout';
+import { CameraPose, createCameraSync } from '@/lib/visualization/cameraSync';
+import { DEFAULT_VIEW_STATE, ViewState, viewStateToQuery } from '@/lib/viewState';
+import { BarData } from '@/lib/visualization/instancedBars';
+import { CAMERA_PRESETS, CameraPresetId } from '@/lib/visualization/cameraPresets';
+import { DEPTH_OPTIONS, MAX_SLICES, SAMPLE_OPTIONS, WINDOW_OPTIONS, withWindow } from '@/lib/visualization/timeAxis';
+import ConsolidatedBook from '@/components/ConsolidatedBook';
+import DepthChart from '@/components/DepthChart';
+import Sparkline from '@/components/Sparkline';
+import MetricsPanel from '@/components/MetricsPanel';
+import SessionControls from '@/components/SessionControls';
+import ConnectionBadge, { describeConnection } from '@/components/ConnectionBadge';
+import TimelineScrubber from '@/components/TimelineScrubber';
+import SavedLayouts from '@/components/SavedLayouts';
+import SymbolPicker from '@/components/SymbolPicker';
+import ComparisonPane, { SharedSceneProps } from '@/components/ComparisonPane';
+import ThreeJSVisualization, { RenderMode } from '@/components/ThreeJSVisualization';
 
-// Types
-interface OrderbookLevel {
-  price: number;
-  quantity: number;
-  timestamp: number;
-}
-
-interface OrderbookData {
-  bids: OrderbookLevel[];
-  asks: OrderbookLevel[];
-  lastUpdateId: number;
-}
-
-interface Venue {
-  id: string;
-  name: string;
-  color: string;
-  enabled: boolean;
-}
-
-interface HistoricalData {
-  timestamp: number;
-  bids: OrderbookLevel[];
-  asks: OrderbookLevel[];
-}
-
-// Three.js types - properly typed instead of 'any'
-interface ThreeScene {
-  background: THREE.Color;
-  add: (object: THREE.Object3D) => void;
-  remove: (object: THREE.Object3D) => void;
-  children: THREE.Object3D[];
-}
-
-interface ThreeCamera {
-  aspect: number;
-  position: {
-    set: (x: number, y: number, z: number) => void;
-    x: number;
-    y: number;
-    z: number;
-    multiplyScalar: (scalar: number) => void;
-  };
-  updateProjectionMatrix: () => void;
-  lookAt: (x: number, y: number, z: number) => void;
-}
-
-interface ThreeRenderer {
-  domElement: HTMLCanvasElement;
-  setSize: (width: number, height: number) => void;
-  render: (scene: ThreeScene, camera: ThreeCamera) => void;
-  dispose: () => void;
-  shadowMap: {
-    enabled: boolean;
-    type: THREE.ShadowMapType;
-  };
-}
-
-// Custom hooks
-const useOrderbookWebSocket = (symbol: string = 'BTCUSDT') => {
-  const [orderbook, setOrderbook] = useState<OrderbookData>({ bids: [], asks: [], lastUpdateId: 0 });
-  const [historicalData, setHistoricalData] = useState<HistoricalData[]>([]);
-  const [connected, setConnected] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const wsRef = useRef<WebSocket | null>(null);
-  const orderbookRef = useRef<OrderbookData>({ bids: [], asks: [], lastUpdateId: 0 });
-
-  const initializeOrderbook = useCallback(async () => {
-    try {
-      const response = await fetch(`https://api.binance.com/api/v3/depth?symbol=${symbol}&limit=100`);
-      const data = await response.json();
-      
-      const initialOrderbook: OrderbookData = {
-        bids: data.bids.map(([price, quantity]: [string, string]) => ({
-          price: parseFloat(price),
-          quantity: parseFloat(quantity),
-          timestamp: Date.now()
-        })),
-        asks: data.asks.map(([price, quantity]: [string, string]) => ({
-          price: parseFloat(price),
-          quantity: parseFloat(quantity),
-          timestamp: Date.now()
-        })),
-        lastUpdateId: data.lastUpdateId
-      };
-      
-      orderbookRef.current = initialOrderbook;
-      setOrderbook(initialOrderbook);
-      
-      // Initialize historical data
-      setHistoricalData([{
-        timestamp: Date.now(),
-        bids: initialOrderbook.bids.slice(0, 20),
-        asks: initialOrderbook.asks.slice(0, 20)
-      }]);
-    } catch (error) {
-      setError('Failed to initialize orderbook');
-      console.error(error);
-    }
-  }, [symbol]);
-
-  const connectWebSocket = useCallback(() => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) return;
-
-    try {
-      const ws = new WebSocket(`wss://stream.binance.com:9443/ws/${symbol.toLowerCase()}@depth`);
-      
-      ws.onopen = () => {
-        setConnected(true);
-        setError(null);
-      };
-
-      ws.onmessage = (event) => {
-        const data = JSON.parse(event.data);
-        const timestamp = Date.now();
-        
-        if (data.U <= orderbookRef.current.lastUpdateId) return;
+const RENDER_MODES: { label: string; value: RenderMode }[] = [
+  { label: 'Bars', value: 'bars' },
+  { label: 'Surface', value: 'surface' },
+  { label: 'Heatmap', value: 'heatmap' }
+];
 
-        const updatedOrderbook = { ...orderbookRef.current };
-        
-        // Update bids
-        data.b?.forEach(([price, quantity]: [string, string]) => {
-          const priceNum = parseFloat(price);
-          const quantityNum = parseFloat(quantity);
-          const index = updatedOrderbook.bids.findIndex(bid => bid.price === priceNum);
-          
-          if (quantityNum === 0) {
-            if (index !== -1) updatedOrderbook.bids.splice(index, 1);
-          } else {
-            const level = { price: priceNum, quantity: quantityNum, timestamp };
-            if (index !== -1) {
-              updatedOrderbook.bids[index] = level;
-            } else {
-              updatedOrderbook.bids.push(level);
-              updatedOrderbook.bids.sort((a, b) => b.price - a.price);
-            }
-          }
-        });
-
-        // Update asks
-        data.a?.forEach(([price, quantity]: [string, string]) => {
-          const priceNum = parseFloat(price);
-          const quantityNum = parseFloat(quantity);
-          const index = updatedOrderbook.asks.findIndex(ask => ask.price === priceNum);
-          
-          if (quantityNum === 0) {
-            if (index !== -1) updatedOrderbook.asks.splice(index, 1);
-          } else {
-            const level = { price: priceNum, quantity: quantityNum, timestamp };
-            if (index !== -1) {
-              updatedOrderbook.asks[index] = level;
-            } else {
-              updatedOrderbook.asks.push(level);
-              updatedOrderbook.asks.sort((a, b) => a.price - b.price);
-            }
-          }
-        });
-
-        updatedOrderbook.lastUpdateId = data.u;
-        orderbookRef.current = updatedOrderbook;
-        setOrderbook(updatedOrderbook);
-        
-        // Update historical data (keep last 60 snapshots for time dimension)
-        setHistoricalData(prev => {
-          const newSnapshot = {
-            timestamp,
-            bids: updatedOrderbook.bids.slice(0, 20),
-            asks: updatedOrderbook.asks.slice(0, 20)
-          };
-          const updated = [...prev, newSnapshot];
-          return updated.slice(-60); // Keep last 60 snapshots
-        });
-      };
-
-      ws.onerror = () => {
-        setError('WebSocket connection error');
-        setConnected(false);
-      };
-
-      ws.onclose = () => {
-        setConnected(false);
-        setTimeout(() => connectWebSocket(), 3000);
-      };
-
-      wsRef.current = ws;
-    } catch (error) {
-      setError('Failed to connect to WebSocket');
-      setConnected(false);
-    }
-  }, [symbol]);
+const WALL_THRESHOLDS: { label: string; value: WallThresholdMode; defaultValue: number; step: number }[] = [
+  { label: 'Z-score', value: 'zscore', defaultValue: 2, step: 0.5 },
+  { label: '× median', value: 'median', defaultValue: 5, step: 1 },
+  { label: 'Absolute size', value: 'absolute', defaultValue: 10, step: 1 }
+];
 
-  useEffect(() => {
-    initializeOrderbook().then(() => {
-      connectWebSocket();
-    });
-
-    return () => {
-      if (wsRef.current) {
-        wsRef.current.close();
-      }
-    };
-  }, [initializeOrderbook, connectWebSocket]);
+// Switching mode starts from a sensible range in the new unit
+const PRICE_AXIS_MODES: { label: string; value: PriceAxisMode; unit: string; defaultRange: number }[] = [
+  { label: 'Fit', value: 'fit', unit: '', defaultRange: 0 },
+  { label: 'Absolute', value: 'absolute', unit: 'price', defaultRange: 50 },
+  { label: 'Basis points', value: 'bps', unit: 'bp', defaultRange: 10 },
+  { label: 'Ticks', value: 'ticks', unit: 'ticks', defaultRange: 100 }
+];
 
-  return { orderbook, historicalData, connected, error };
+const WALL_STATUS_COLORS: Record<WallStatus, string> = {
+  active: 'text-white',
+  pulled: 'text-amber-400',
+  absorbed: 'text-purple-400',
+  merged: 'text-gray-400'
 };
 
-// Three.js Visualization Component
-const ThreeJSVisualization: React.FC<{
-  orderbook: OrderbookData;
-  historicalData: HistoricalData[];
-  isRotating: boolean;
-  showPressureZones: boolean;
-  darkMode: boolean;
-}> = ({ orderbook, historicalData, isRotating, showPressureZones, darkMode }) => {
-  const mountRef = useRef<HTMLDivElement>(null);
-  const sceneRef = useRef<THREE.Scene | null>(null);
-  const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
-  const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
-  const frameRef = useRef<number>(0);
+// Shared empty series for when the imbalance strip is hidden
+const NO_METRICS: BookMetrics[] = [];
 
-  useEffect(() => {
-    if (!mountRef.current || typeof window === 'undefined') return;
-
-    const currentMount = mountRef.current;
-
-    // Dynamically import Three.js to avoid SSR issues
-    const initThreeJS = async () => {
-      const THREE = await import('three');
-      
-      // Scene setup
-      const scene = new THREE.Scene();
-      scene.background = new THREE.Color(darkMode ? 0x1a1a2e : 0xf8f9fa);
-      
-      // Camera setup
-      const camera = new THREE.PerspectiveCamera(75, currentMount.clientWidth / currentMount.clientHeight, 0.1, 1000);
-      camera.position.set(25, 20, 25);
-      camera.lookAt(0, 0, 0);
-      
-      // Renderer setup
-      const renderer = new THREE.WebGLRenderer({ antialias: true });
-      renderer.setSize(currentMount.clientWidth, currentMount.clientHeight);
-      renderer.shadowMap.enabled = true;
-      renderer.shadowMap.type = THREE.PCFSoftShadowMap;
-      currentMount.appendChild(renderer.domElement);
-      
-      // Lighting
-      const ambientLight = new THREE.AmbientLight(0xffffff, 0.4);
-      scene.add(ambientLight);
-      
-      const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
-      directionalLight.position.set(50, 50, 50);
-      directionalLight.castShadow = true;
-      directionalLight.shadow.mapSize.width = 2048;
-      directionalLight.shadow.mapSize.height = 2048;
-      scene.add(directionalLight);
-      
-      const pointLight = new THREE.PointLight(0x4fc3f7, 0.6);
-      pointLight.position.set(-30, 20, -30);
-      scene.add(pointLight);
-      
-      // Create coordinate system
-      const axesHelper = new THREE.AxesHelper(15);
-      scene.add(axesHelper);
-      
-      // Create grid for better visualization
-      const gridHelper = new THREE.GridHelper(50, 50, 0x444444, 0x222222);
-      scene.add(gridHelper);
-      
-      // Add axis labels using sprites
-      const createTextSprite = (text: string, color: string = '#ffffff') => {
-        const canvas = document.createElement('canvas');
-        const context = canvas.getContext('2d')!;
-        canvas.width = 256;
-        canvas.height = 64;
-        
-        context.fillStyle = color;
-        context.font = '24px Arial';
-        context.textAlign = 'center';
-        context.fillText(text, 128, 40);
-        
-        const texture = new THREE.CanvasTexture(canvas);
-        const spriteMaterial = new THREE.SpriteMaterial({ map: texture });
-        const sprite = new THREE.Sprite(spriteMaterial);
-        sprite.scale.set(4, 1, 1);
-        return sprite;
-      };
-      
-      // Add axis labels
-      const xLabel = createTextSprite('Price', '#ff6b6b');
-      xLabel.position.set(20, -2, 0);
-      scene.add(xLabel);
-      
-      const yLabel = createTextSprite('Quantity', '#4ecdc4');
-      yLabel.position.set(0, 20, 0);
-      scene.add(yLabel);
-      
-      const zLabel = createTextSprite('Time', '#45b7d1');
-      zLabel.position.set(0, -2, 20);
-      scene.add(zLabel);
-      
-      // Store references
-      sceneRef.current = scene;
-      rendererRef.current = renderer;
-      cameraRef.current = camera;
-      
-      // Controls (basic mouse interaction)
-      let mouseDown = false;
-      let mouseX = 0;
-      let mouseY = 0;
-      let targetRotationX = 0;
-      let targetRotationY = 0;
-      let currentRotationX = 0;
-      let currentRotationY = 0;
-      
-      const onMouseDown = (event: MouseEvent) => {
-        mouseDown = true;
-        mouseX = event.clientX;
-        mouseY = event.clientY;
-      };
-      
-      const onMouseUp = () => {
-        mouseDown = false;
-      };
-      
-      const onMouseMove = (event: MouseEvent) => {
-        if (!mouseDown) return;
-        
-        const deltaX = event.clientX - mouseX;
-        const deltaY = event.clientY - mouseY;
-        
-        targetRotationY += deltaX * 0.01;
-        targetRotationX += deltaY * 0.01;
-        targetRotationX = Math.max(-Math.PI/2, Math.min(Math.PI/2, targetRotationX));
-        
-        mouseX = event.clientX;
-        mouseY = event.clientY;
-      };
-      
-      const onWheel = (event: WheelEvent) => {
-        const scaleFactor = 1 + event.deltaY * 0.001;
-        camera.position.multiplyScalar(scaleFactor);
-        camera.position.x = Math.max(-100, Math.min(100, camera.position.x));
-        camera.position.y = Math.max(5, Math.min(100, camera.position.y));
-        camera.position.z = Math.max(-100, Math.min(100, camera.position.z));
-      };
-      
-      renderer.domElement.addEventListener('mousedown', onMouseDown);
-      renderer.domElement.addEventListener('mouseup', onMouseUp);
-      renderer.domElement.addEventListener('mousemove', onMouseMove);
-      renderer.domElement.addEventListener('wheel', onWheel);
-      
-      // Animation loop
-      const animate = () => {
-        frameRef.current = requestAnimationFrame(animate);
-        
-        // Smooth rotation
-        currentRotationX += (targetRotationX - currentRotationX) * 0.1;
-        currentRotationY += (targetRotationY - currentRotationY) * 0.1;
-        
-        if (isRotating) {
-          targetRotationY += 0.005;
-        }
-        
-        // Update camera position based on rotation
-        const radius = Math.sqrt(
-          camera.position.x * camera.position.x + 
-          camera.position.z * camera.position.z
-        );
-        
-        camera.position.x = radius * Math.cos(currentRotationY);
-        camera.position.z = radius * Math.sin(currentRotationY);
-        camera.position.y = Math.max(5, camera.position.y + currentRotationX * 5);
-        
-        camera.lookAt(0, 5, 0);
-        
-        renderer.render(scene, camera);
-      };
-      
-      animate();
-      
-      // Handle resize
-      const handleResize = () => {
-        if (!currentMount) return;
-        camera.aspect = currentMount.clientWidth / currentMount.clientHeight;
-        camera.updateProjectionMatrix();
-        renderer.setSize(currentMount.clientWidth, currentMount.clientHeight);
-      };
-      
-      window.addEventListener('resize', handleResize);
-      
-      return () => {
-        window.removeEventListener('resize', handleResize);
-        renderer.domElement.removeEventListener('mousedown', onMouseDown);
-        renderer.domElement.removeEventListener('mouseup', onMouseUp);
-        renderer.domElement.removeEventListener('mousemove', onMouseMove);
-        renderer.domElement.removeEventListener('wheel', onWheel);
-      };
-    };
-
-    initThreeJS();
-
-    return () => {
-      if (frameRef.current) {
-        cancelAnimationFrame(frameRef.current);
-      }
-      if (rendererRef.current && currentMount?.contains(rendererRef.current.domElement)) {
-        currentMount.removeChild(rendererRef.current.domElement);
-        rendererRef.current.dispose();
-      }
-    };
-  }, [darkMode, isRotating]);
-
-  // Update visualization when orderbook changes
-  useEffect(() => {
-    if (!sceneRef.current || typeof window === 'undefined' || historicalData.length === 0) return;
-
-    const updateVisualization = async () => {
-      const THREE = await import('three');
-      const scene = sceneRef.current!;
-      
-      // Clear previous bars
-      const barsToRemove = scene.children.filter((child: THREE.Object3D) => child.userData?.isOrderbookBar);
-      barsToRemove.forEach((bar: THREE.Object3D) => scene.remove(bar));
-      
-      // Get price range from current orderbook
-      const allPrices = [...orderbook.bids, ...orderbook.asks].map(level => level.price);
-      if (allPrices.length === 0) return;
-      
-      const priceRange = {
-        min: Math.min(...allPrices),
-        max: Math.max(...allPrices)
-      };
-      
-      // Calculate max quantity for scaling
-      const allQuantities = historicalData.flatMap(snapshot => 
-        [...snapshot.bids, ...snapshot.asks].map(level => level.quantity)
-      );
-      const maxQuantity = Math.max(...allQuantities, 1);
-      
-      // Create 3D bars for each time snapshot
-      historicalData.forEach((snapshot, timeIndex) => {
-        const timeProgress = historicalData.length > 1 ? timeIndex / (historicalData.length - 1) : 0;
-        const zPosition = (timeProgress * 40) - 20; // Time axis (Z)
-        
-        // Create bid bars (green)
-        snapshot.bids.slice(0, 20).forEach((bid) => {
-          const xPosition = ((bid.price - priceRange.min) / (priceRange.max - priceRange.min) * 40) - 20; // Price axis (X)
-          const yHeight = (bid.quantity / maxQuantity) * 15; // Quantity axis (Y)
-          
-          const geometry = new THREE.BoxGeometry(0.8, yHeight, 0.8);
-          const material = new THREE.MeshLambertMaterial({ 
-            color: new THREE.Color().setHSL(0.33, 0.8, 0.5 + (bid.quantity / maxQuantity) * 0.3),
-            transparent: true,
-            opacity: 0.8
-          });
-          const mesh = new THREE.Mesh(geometry, material);
-          
-          mesh.position.set(xPosition, yHeight / 2, zPosition);
-          mesh.castShadow = true;
-          mesh.receiveShadow = true;
-          mesh.userData = { 
-            isOrderbookBar: true, 
-            type: 'bid',
-            price: bid.price,
-            quantity: bid.quantity,
-            timestamp: snapshot.timestamp
-          };
-          scene.add(mesh);
-        });
-        
-        // Create ask bars (red)
-        snapshot.asks.slice(0, 20).forEach((ask) => {
-          const xPosition = ((ask.price - priceRange.min) / (priceRange.max - priceRange.min) * 40) - 20; // Price axis (X)
-          const yHeight = (ask.quantity / maxQuantity) * 15; // Quantity axis (Y)
-          
-          const geometry = new THREE.BoxGeometry(0.8, yHeight, 0.8);
-          const material = new THREE.MeshLambertMaterial({ 
-            color: new THREE.Color().setHSL(0, 0.8, 0.5 + (ask.quantity / maxQuantity) * 0.3),
-            transparent: true,
-            opacity: 0.8
-          });
-          const mesh = new THREE.Mesh(geometry, material);
-          
-          mesh.position.set(xPosition, yHeight / 2, zPosition);
-          mesh.castShadow = true;
-          mesh.receiveShadow = true;
-          mesh.userData = { 
-            isOrderbookBar: true, 
-            type: 'ask',
-            price: ask.price,
-            quantity: ask.quantity,
-            timestamp: snapshot.timestamp
-          };
-          scene.add(mesh);
-        });
-      });
-      
-      // Add pressure zones if enabled
-      if (showPressureZones && orderbook.bids.length > 0 && orderbook.asks.length > 0) {
-        const avgQuantity = (
-          [...orderbook.bids, ...orderbook.asks].reduce((sum, level) => sum + level.quantity, 0) /
-          (orderbook.bids.length + orderbook.asks.length)
-        );
-        
-        const highVolumeThreshold = avgQuantity * 2;
-        
-        [...orderbook.bids, ...orderbook.asks].forEach(level => {
-          if (level.quantity > highVolumeThreshold) {
-            const xPosition = ((level.price - priceRange.min) / (priceRange.max - priceRange.min) * 40) - 20;
-            const yPosition = (level.quantity / maxQuantity) * 15;
-            
-            const geometry = new THREE.SphereGeometry(2, 16, 16);
-            const material = new THREE.MeshLambertMaterial({
-              color: orderbook.bids.includes(level) ? 0x00ff88 : 0xff4444,
-              transparent: true,
-              opacity: 0.3,
-              wireframe: true
-            });
-            const sphere = new THREE.Mesh(geometry, material);
-            
-            sphere.position.set(xPosition, yPosition + 2, -10);
-            sphere.userData = { isOrderbookBar: true, type: 'pressure' };
-            scene.add(sphere);
-          }
-        });
-      }
-    };
-
-    updateVisualization();
-  }, [orderbook, historicalData, showPressureZones]);
-
-  return <div ref={mountRef} className="w-full h-full" />;
+// Grid shape for each pane count: side by side for two, two by two for four
+const PANE_GRIDS: Record<PaneCount, string> = {
+  1: 'grid-cols-1 grid-rows-1',
+  2: 'grid-cols-2 grid-rows-1',
+  4: 'grid-cols-2 grid-rows-2'
 };
 
+const CONSOLIDATED_VENUE: Venue = { id: 'consolidated', name: 'Consolidated', color: '#a78bfa', enabled: true };
+
 // Main Component
 const OrderbookDepthVisualizer: React.FC = () => {
-  const [symbol, setSymbol] = useState('BTCUSDT');
-  const [isRotating, setIsRotating] = useState(true);
-  const [showPressureZones, setShowPressureZones] = useState(true);
-  const [darkMode, setDarkMode] = useState(true);
+  const [symbol, setSymbol] = useState(DEFAULT_VIEW_STATE.symbol);
+  const [isRotating, setIsRotating] = useState(DEFAULT_VIEW_STATE.isRotating);
+  const [showPressureZones, setShowPressureZones] = useState(DEFAULT_VIEW_STATE.showPressureZones);
+  const [metricSettings, setMetricSettings] = useState<MetricSettings>(DEFAULT_VIEW_STATE.metricSettings);
+  const [showImbalance, setShowImbalance] = useState(DEFAULT_VIEW_STATE.showImbalance);
+  const [showTrades, setShowTrades] = useState(DEFAULT_VIEW_STATE.showTrades);
+  const [wallDetection, setWallDetection] = useState<WallDetectionSettings>(DEFAULT_VIEW_STATE.wallDetection);
+  const [darkMode, setDarkMode] = useState(DEFAULT_VIEW_STATE.darkMode);
   const [showFilters, setShowFilters] = useState(false);
-  const [quantityThreshold, setQuantityThreshold] = useState(0.1);
+  const [filters, setFilters] = useState<LevelFilters>(DEFAULT_VIEW_STATE.filters);
+  const [bookView, setBookView] = useState<'venues' | 'consolidated'>(DEFAULT_VIEW_STATE.bookView);
+  const [bucketMultiplier, setBucketMultiplier] = useState(DEFAULT_VIEW_STATE.bucketMultiplier);
+  const [history, setHistory] = useState<HistorySettings>(DEFAULT_VIEW_STATE.history);
+  const [renderMode, setRenderMode] = useState<RenderMode>(DEFAULT_VIEW_STATE.renderMode);
+  const [cumulativeDepth, setCumulativeDepth] = useState(DEFAULT_VIEW_STATE.cumulativeDepth);
+  const [showDepthChart, setShowDepthChart] = useState(DEFAULT_VIEW_STATE.showDepthChart);
+  const [priceAxis, setPriceAxis] = useState<PriceAxisSettings>(DEFAULT_VIEW_STATE.priceAxis);
+  const [cameraView, setCameraView] = useState<{ preset: CameraPresetId; revision: number; pose?: CameraPose }>({ preset: 'default', revision: 0 });
+  // Last pose of the main camera; kept out of state since it changes every frame while rotating
+  const cameraPoseRef = useRef<CameraPose | null>(null);
+  // Null follows live data; otherwise the instant the view is frozen at, for the stream it was set on
+  const [pausedAt, setPausedAt] = useState<{ stream: string; time: number } | null>(null);
+  const [mockExchange, setMockExchange] = useState({ enabled: MOCK_EXCHANGE_BY_DEFAULT, url: DEFAULT_MOCK_EXCHANGE_URL });
+  const [pinnedLevel, setPinnedLevel] = useState<Pick<BarData, 'venue' | 'type' | 'price'> | null>(null);
+  const [paneCount, setPaneCount] = useState<PaneCount>(DEFAULT_VIEW_STATE.paneCount);
+  const [comparisonPanes, setComparisonPanes] = useState<ComparisonPaneSettings[]>(DEFAULT_VIEW_STATE.comparisonPanes);
+  const [viewSync, setViewSync] = useState<ViewSync>(DEFAULT_VIEW_STATE.viewSync);
+  // Rounded peak notional level of each comparison pane, for the shared bar height scale
+  const [paneScales, setPaneScales] = useState<number[]>([]);
+  const cameraSync = useMemo(() => createCameraSync(), []);
   
   const [venues, setVenues] = useState<Venue[]>([
-    { id: 'binance', name: 'Binance', color: '#f0b90b', enabled: true },
+    { id: 'binance', name: 'Binance', color: '#f0b90b', enabled: false },
     { id: 'okx', name: 'OKX', color: '#00d4aa', enabled: false },
     { id: 'bybit', name: 'Bybit', color: '#f7a600', enabled: false },
     { id: 'deribit', name: 'Deribit', color: '#1e3a8a', enabled: false },
-  ]);
+  ].map(venue => ({ ...venue, enabled: DEFAULT_VIEW_STATE.venues.includes(venue.id) })));
+
+  const enabledVenues = useMemo(() => venues.filter(venue => venue.enabled), [venues]);
+  const enabledVenueIds = useMemo(() => enabledVenues.map(venue => venue.id), [enabledVenues]);
+
+  const endpoints = useMemo(() => (mockExchange.enabled ? mockExchangeEndpoints(mockExchange.url) : {}), [mockExchange]);
+  const { books, metrics, connected, error, recorder, replay } = useOrderbookWebSocket(
+    symbol,
+    enabledVenueIds,
+    history,
+    metricSettings,
+    endpoints,
+    pausedAt?.time ?? null
+  );
+  // Binance's listing is the symbol universe; the other venues are mapped onto its names
+  const { instruments, bySymbol, loading: instrumentsLoading, error: instrumentsError } = useInstruments('binance', endpoints);
+
+  // A replay shows the recording's symbol and venues, whatever is selected for live
+  const replayVenueKey = replay.status?.venueIds.join(',');
+  const streamVenues = useMemo(() => (
+    replayVenueKey !== undefined ? venues.filter(venue => replayVenueKey.split(',').includes(venue.id)) : enabledVenues
+  ), [replayVenueKey, venues, enabledVenues]);
+  const streamSymbol = replay.status?.symbol ?? symbol;
+
+  // Switching symbol, or between live and a replay, goes back to following the new stream
+  const streamKey = `${replay.status ? 'replay' : 'live'}:${streamSymbol}`;
+  const timeCursor = pausedAt?.stream === streamKey ? pausedAt.time : null;
+  const setTimeCursor = (time: number | null) => setPausedAt(time === null ? null : { stream: streamKey, time });
+  // A pause set on another stream is over; dropping it also lets the hook trim history again
+  useEffect(() => {
+    if (pausedAt && pausedAt.stream !== streamKey) setPausedAt(null);
+  }, [pausedAt, streamKey]);
+
+  // Books keep filling in while the view is paused; everything below sees them as of the cursor.
+  // Levels are aged against the view's own clock: the cursor, the replay position or now.
+  const replayPosition = replay.status?.position;
+  const displayBooks = useMemo(() => {
+    if (timeCursor === null) return books;
+    return Object.fromEntries(Object.entries(books).map(([venueId, state]) => [venueId, {
+      ...state,
+      orderbook: bookAt(state.historicalData, timeCursor),
+      historicalData: historyUntil(state.historicalData, timeCursor),
+      trades: tradesUntil(state.trades, timeCursor)
+    }]));
+  }, [books, timeCursor]);
+  const connectionStatuses = streamVenues.filter(venue => books[venue.id]).map(venue => ({ venue, status: books[venue.id] }));
+  const reconnecting = connectionStatuses.find(({ status }) => status.state === 'reconnecting');
+  const timelineSamples = streamVenues.map(venue => books[venue.id]?.historicalData).find(samples => samples?.length) ?? [];
+
+  const venueLayers = useMemo<VenueOrderbook[]>(() => (
+    streamVenues
+      .filter(venue => displayBooks[venue.id])
+      .map(venue => ({ venue, orderbook: displayBooks[venue.id].orderbook, historicalData: displayBooks[venue.id].historicalData }))
+  ), [streamVenues, displayBooks]);
+
+  // Only the order of magnitude matters for a guessed tick or the automatic bucket, so a moving
+  // price doesn't rebuild either
+  const referencePrice = venueLayers.find(layer => layer.orderbook.bids.length > 0)?.orderbook.bids[0].price ?? 0;
+  const priceMagnitude = referencePrice > 0 ? Math.pow(10, Math.floor(Math.log10(referencePrice))) : 0;
+  const instrument = useMemo(() => (
+    bySymbol.get(streamSymbol) ?? guessInstrument(streamSymbol, priceMagnitude || undefined)
+  ), [bySymbol, streamSymbol, priceMagnitude]);
 
-  const { orderbook, historicalData, connected, error } = useOrderbookWebSocket(symbol);
+  // Buckets are whole multiples of the tick, so merged levels line up with real prices
+  const baseBucketSize = snapToTick(autoBucketSize(priceMagnitude), instrument.tickSize);
+  const bucketSize = baseBucketSize * bucketMultiplier;
+
+  const consolidatedOrderbook = useMemo(() => (
+    aggregateOrderbooks(venueLayers.map(layer => ({ venueId: layer.venue.id, orderbook: layer.orderbook })), bucketSize)
+  ), [venueLayers, bucketSize]);
+
+  const consolidatedHistory = useMemo(() => (
+    bookView === 'consolidated'
+      ? aggregateHistory(venueLayers.map(layer => ({ venueId: layer.venue.id, ...layer })), bucketSize, Infinity, history.depth)
+      : []
+  ), [bookView, venueLayers, bucketSize, history.depth]);
+
+  // Consolidated view renders the merged book as a single layer through the regular bar pipeline
+  const layers = useMemo<VenueOrderbook[]>(() => (
+    bookView === 'consolidated' && venueLayers.length > 0
+      ? [{ venue: CONSOLIDATED_VENUE, orderbook: consolidatedOrderbook, historicalData: consolidatedHistory }]
+      : venueLayers
+  ), [bookView, venueLayers, consolidatedOrderbook, consolidatedHistory]);
+
+  // What the scene and stats see; history samples are aged against their own timestamps
+  const visibleLayers = useMemo<VenueOrderbook[]>(() => {
+    if (!hasActiveFilters(filters)) return layers;
+    const now = timeCursor ?? replayPosition ?? Date.now();
+    return layers.map(layer => ({
+      ...layer,
+      orderbook: filterBook(layer.orderbook, filters, now),
+      historicalData: layer.historicalData.map(snapshot => filterBook(snapshot, filters, snapshot.timestamp))
+    }));
+  }, [layers, filters, timeCursor, replayPosition]);
+  const activeFilters = describeFilters(filters);
+
+  // Liquidity walls followed through each visible layer's history; skipped while hidden
+  const trackedWalls = useMemo(() => (
+    showPressureZones
+      ? visibleLayers.flatMap(layer => trackLiquidityWalls(layer.historicalData, wallDetection).map(wall => ({ venue: layer.venue, wall })))
+      : []
+  ), [showPressureZones, visibleLayers, wallDetection]);
+  const liquidityWalls = useMemo(() => trackedWalls.map(({ wall }) => wall), [trackedWalls]);
+
+  // The merged book, or else the first enabled venue, drives the headline stats
+  const emptyOrderbook = useMemo<OrderbookData>(() => ({ bids: [], asks: [], lastUpdateId: 0 }), []);
+  const orderbook = visibleLayers[0]?.orderbook ?? emptyOrderbook;
+  const historicalData = useMemo(() => visibleLayers[0]?.historicalData ?? [], [visibleLayers]);
+
+  // Size resting at the pinned price in every sample of its layer; 0 where the level was absent
+  const pinnedLayer = pinnedLevel ? layers.find(layer => layer.venue.id === pinnedLevel.venue) : undefined;
+  const pinnedSeries = useMemo(() => {
+    if (!pinnedLevel || !pinnedLayer) return [];
+    return pinnedLayer.historicalData.map(snapshot => ({
+      timestamp: snapshot.timestamp,
+      value: (pinnedLevel.type === 'bid' ? snapshot.bids : snapshot.asks).find(level => level.price === pinnedLevel.price)?.quantity ?? 0
+    }));
+  }, [pinnedLevel, pinnedLayer]);
 
   const toggleVenue = (venueId: string) => {
     setVenues(prev => prev.map(venue => 
@@ -561,23 +245,161 @@ const OrderbookDepthVisualizer: React.FC = () => {
     ));
   };
 
+  const showCameraPreset = (preset: CameraPresetId) => {
+    setCameraView(prev => ({ preset, revision: prev.revision + 1 }));
+  };
+
   const resetView = () => {
+    showCameraPreset('default');
     setIsRotating(true);
-    setQuantityThreshold(0.1);
+    setFilters(DEFAULT_LEVEL_FILTERS);
+  };
+
+  // Depth changes split into executed and cancelled size using each venue's own trades.
+  // Runs on the unfiltered venue books, since filtering would read as cancels.
+  const tradeFlow = useMemo(() => {
+    if (!showTrades) return null;
+    const perVenue = venueLayers.map(({ venue, historicalData: samples }) => {
+      const trades = displayBooks[venue.id]?.trades ?? [];
+      const changes = classifyDepthChanges(samples, trades);
+      return { venue, trades, summary: summarizeFlow(changes), hints: detectFlowHints(changes, samples, DEFAULT_FLOW_HINTS) };
+    });
+    return {
+      perVenue,
+      overlay: {
+        trades: perVenue.flatMap(({ trades }) => trades),
+        hints: perVenue.flatMap(({ hints }) => hints)
+      }
+    };
+  }, [showTrades, venueLayers, displayBooks]);
+
+  // Microstructure metrics of the headline layer, on its unfiltered book. Live venue metrics come
+  // from the hook; the merged book and past instants only exist here, so those are computed here.
+  const headlineLayer = layers[0];
+  const headlineMetrics = useMemo(() => {
+    if (!headlineLayer) return null;
+    if (headlineLayer.venue.id !== CONSOLIDATED_VENUE.id && timeCursor === null) return metrics[headlineLayer.venue.id] ?? null;
+    const { orderbook: book, historicalData: samples } = headlineLayer;
+    // A past book is itself the last sample, so OFI is measured against the one before
+    return {
+      live: timeCursor === null
+        ? computeBookMetrics(book, replayPosition ?? Date.now(), metricSettings, samples[samples.length - 1])
+        : computeBookMetrics(book, timeCursor, metricSettings, samples[samples.length - 2]),
+      series: metricsSeries(samples, metricSettings)
+    };
+  }, [headlineLayer, metrics, metricSettings, timeCursor, replayPosition]);
+  const bestBid = headlineLayer?.orderbook.bids[0]?.price;
+  const bestAsk = headlineLayer?.orderbook.asks[0]?.price;
+
+  // Cumulative depth of the headline book; its far end is the total resting volume per side
+  const depth = useMemo(() => depthCurve(orderbook), [orderbook]);
+  const totalVolume = depth.totals;
+
+  // Comparison layout. The main view leads: it is the one pane that auto-rotates while cameras
+  // are synced, and normalized panes draw their bars against the largest level of any pane.
+  const comparing = paneCount > 1;
+  const normalize = comparing && viewSync.normalize;
+  const visiblePanes = comparisonPanes.slice(0, paneCount - 1);
+  const sceneLayers = useMemo(() => (normalize ? visibleLayers.map(notionalLayer) : visibleLayers), [normalize, visibleLayers]);
+  const sceneWalls = useMemo(() => (
+    normalize && showPressureZones
+      ? sceneLayers.flatMap(layer => trackLiquidityWalls(layer.historicalData, wallDetection))
+      : liquidityWalls
+  ), [normalize, showPressureZones, sceneLayers, wallDetection, liquidityWalls]);
+  const quantityScale = normalize
+    ? Math.max(niceCeil(peakLevelQuantity(sceneLayers)), ...paneScales.slice(0, visiblePanes.length)) || undefined
+    : undefined;
+  const scenePriceAxis = useMemo(() => (normalize ? normalizedPriceAxis(priceAxis) : priceAxis), [normalize, priceAxis]);
+  const sharedScene: SharedSceneProps = {
+    renderMode,
+    cumulative: cumulativeDepth,
+    priceAxis: scenePriceAxis,
+    showPressureZones,
+    darkMode,
+    cameraView,
+    isRotating,
+    cameraSync: comparing && viewSync.camera ? cameraSync : null,
+    quantityScale,
+    notional: normalize
+  };
+
+  const reportPaneScale = useCallback((index: number, scale: number) => {
+    setPaneScales(prev => (prev[index] === scale ? prev : Object.assign([...prev], { [index]: scale })));
+  }, []);
+
+  const updatePane = (index: number, pane: ComparisonPaneSettings) => {
+    setComparisonPanes(prev => prev.map((current, paneIndex) => (paneIndex === index ? pane : current)));
   };
 
-  const spread = useMemo(() => {
-    if (orderbook.bids.length === 0 || orderbook.asks.length === 0) return 0;
-    const bestBid = Math.max(...orderbook.bids.map(b => b.price));
-    const bestAsk = Math.min(...orderbook.asks.map(a => a.price));
-    return bestAsk - bestBid;
-  }, [orderbook]);
+  // Shareable view: everything above that decides what is drawn, restored on load from the URL
+  // or the last session and written back as it changes
+  const viewState = useMemo<ViewState>(() => ({
+    symbol,
+    venues: enabledVenueIds,
+    darkMode,
+    isRotating,
+    showPressureZones,
+    showImbalance,
+    showTrades,
+    showDepthChart,
+    renderMode,
+    cumulativeDepth,
+    bookView,
+    bucketMultiplier,
+    history,
+    priceAxis,
+    filters,
+    metricSettings,
+    wallDetection,
+    paneCount,
+    comparisonPanes,
+    viewSync,
+    camera: null
+  }), [
+    symbol, enabledVenueIds, darkMode, isRotating, showPressureZones, showImbalance, showTrades, showDepthChart, renderMode,
+    cumulativeDepth, bookView, bucketMultiplier, history, priceAxis, filters, metricSettings, wallDetection, paneCount,
+    comparisonPanes, viewSync
+  ]);
+  const currentViewState = (): ViewState => ({ ...viewState, camera: cameraPoseRef.current });
+
+  const applyViewState = (state: ViewState) => {
+    setSymbol(state.symbol);
+    setVenues(prev => prev.map(venue => ({ ...venue, enabled: state.venues.includes(venue.id) })));
+    setDarkMode(state.darkMode);
+    setIsRotating(state.isRotating);
+    setShowPressureZones(state.showPressureZones);
+    setShowImbalance(state.showImbalance);
+    setShowTrades(state.showTrades);
+    setShowDepthChart(state.showDepthChart);
+    setRenderMode(state.renderMode);
+    setCumulativeDepth(state.cumulativeDepth);
+    setBookView(state.bookView);
+    setBucketMultiplier(state.bucketMultiplier);
+    setHistory(state.history);
+    setPriceAxis(state.priceAxis);
+    setFilters(state.filters);
+    setMetricSettings(state.metricSettings);
+    setWallDetection(state.wallDetection);
+    setPaneCount(state.paneCount);
+    setComparisonPanes(state.comparisonPanes);
+    setViewSync(state.viewSync);
+    cameraPoseRef.current = state.camera;
+    setCameraView(prev => ({ preset: 'default', revision: prev.revision + 1, pose: state.camera ?? undefined }));
+    setPausedAt(null);
+    setPinnedLevel(null);
+  };
+
+  const { restored, save: saveViewState } = usePersistedViewState(currentViewState, applyViewState);
+  const savedLayouts = useSavedLayouts();
 
-  const totalVolume = useMemo(() => {
-    const bidVolume = orderbook.bids.reduce((sum, bid) => sum + bid.quantity, 0);
-    const askVolume = orderbook.asks.reduce((sum, ask) => sum + ask.quantity, 0);
-    return { bids: bidVolume, asks: askVolume };
-  }, [orderbook]);
+  useEffect(() => {
+    if (restored) saveViewState();
+  }, [restored, viewState, saveViewState]);
+
+  const trackCamera = (pose: CameraPose) => {
+    cameraPoseRef.current = pose;
+    if (restored) saveViewState();
+  };
 
   return (
     <div className={`w-full h-screen ${darkMode ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-900'} overflow-hidden`}>
@@ -585,23 +407,17 @@ const OrderbookDepthVisualizer: React.FC = () => {
       <div className="flex items-center justify-between p-4 border-b border-gray-700">
         <div className="flex items-center space-x-4">
           <h1 className="text-2xl font-bold">3D Orderbook Depth Visualizer</h1>
-          <div className={`px-3 py-1 rounded-full text-sm ${connected ? 'bg-green-500' : 'bg-red-500'}`}>
-            {connected ? 'Connected' : 'Disconnected'}
-          </div>
+          {replay.status ? (
+            <div className="px-3 py-1 rounded-full text-sm bg-amber-500">Replay</div>
+          ) : (
+            <ConnectionBadge statuses={connectionStatuses} />
+          )}
+          {recorder.recording && <div className="px-3 py-1 rounded-full text-sm bg-red-600 animate-pulse">REC</div>}
           {error && <div className="text-red-400 text-sm">{error}</div>}
         </div>
         
         <div className="flex items-center space-x-2">
-          <select
-            value={symbol}
-            onChange={(e) => setSymbol(e.target.value)}
-            className="bg-gray-800 border border-gray-600 rounded px-3 py-1"
-          >
-            <option value="BTCUSDT">BTC/USDT</option>
-            <option value="ETHUSDT">ETH/USDT</option>
-            <option value="ADAUSDT">ADA/USDT</option>
-            <option value="DOTUSDT">DOT/USDT</option>
-          </select>
+          <SymbolPicker instruments={instruments} value={symbol} onChange={setSymbol} loading={instrumentsLoading} error={instrumentsError} />
           
           <button
             onClick={() => setDarkMode(!darkMode)}
@@ -644,32 +460,110 @@ const OrderbookDepthVisualizer: React.FC = () => {
             </div>
           </div>
 
+          {/* Layout */}
+          <div>
+            <h3 className="text-lg font-semibold mb-2">Layout</h3>
+            <div className="space-y-2 text-sm">
+              <div className="flex rounded overflow-hidden border border-gray-600">
+                {([1, 2, 4] as const).map(count => (
+                  <button
+                    key={count}
+                    onClick={() => setPaneCount(count)}
+                    className={`flex-1 px-2 py-1 transition-colors ${paneCount === count ? 'bg-blue-600' : 'hover:bg-gray-700'}`}
+                  >
+                    {count === 1 ? 'Single' : `${count} panes`}
+                  </button>
+                ))}
+              </div>
+              {comparing && (
+                <>
+                  <label className="flex items-center space-x-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={viewSync.camera}
+                      onChange={(e) => setViewSync({ ...viewSync, camera: e.target.checked })}
+                      className="rounded"
+                    />
+                    <span>Sync camera</span>
+                  </label>
+                  <label className="flex items-center space-x-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={viewSync.timeWindow}
+                      onChange={(e) => setViewSync({ ...viewSync, timeWindow: e.target.checked })}
+                      className="rounded"
+                    />
+                    <span>Sync time window</span>
+                  </label>
+                  <label className="flex items-center space-x-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={viewSync.normalize}
+                      onChange={(e) => setViewSync({ ...viewSync, normalize: e.target.checked })}
+                      className="rounded"
+                    />
+                    <span>Normalize (bp from mid, notional size)</span>
+                  </label>
+                  <div className="text-xs text-gray-400">
+                    The first pane follows the controls on this panel; the others pick their own symbol and venues.
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Saved Layouts */}
+          <div>
+            <h3 className="text-lg font-semibold mb-2">Saved Layouts</h3>
+            <SavedLayouts
+              layouts={savedLayouts.layouts}
+              onSave={name => savedLayouts.save(name, currentViewState())}
+              onLoad={layout => applyViewState(layout.state)}
+              onDelete={savedLayouts.remove}
+              onImport={savedLayouts.importLayouts}
+              shareLink={() => {
+                const query = viewStateToQuery(currentViewState());
+                return `${window.location.origin}${window.location.pathname}${query ? `?${query}` : ''}`;
+              }}
+            />
+          </div>
+
+          {/* Record & Replay */}
+          <div>
+            <h3 className="text-lg font-semibold mb-2">Record &amp; Replay</h3>
+            <SessionControls recorder={recorder} replay={replay} />
+          </div>
+
           {/* Market Stats */}
           <div>
             <h3 className="text-lg font-semibold mb-2">Market Stats</h3>
             <div className="space-y-2 text-sm">
               <div className="flex justify-between">
                 <span>Spread:</span>
-                <span className="text-yellow-400">${spread.toFixed(2)}</span>
+                <span className="text-yellow-400">
+                  {headlineMetrics && !Number.isNaN(headlineMetrics.live.spread)
+                    ? `${formatQuote(headlineMetrics.live.spread, instrument)} (${headlineMetrics.live.spreadBps.toFixed(2)} bp)`
+                    : 'N/A'}
+                </span>
               </div>
               <div className="flex justify-between">
                 <span>Bid Volume:</span>
-                <span className="text-green-400">{totalVolume.bids.toFixed(2)}</span>
+                <span className="text-green-400">{formatQuantity(totalVolume.bids, instrument)}</span>
               </div>
               <div className="flex justify-between">
                 <span>Ask Volume:</span>
-                <span className="text-red-400">{totalVolume.asks.toFixed(2)}</span>
+                <span className="text-red-400">{formatQuantity(totalVolume.asks, instrument)}</span>
               </div>
               <div className="flex justify-between">
                 <span>Best Bid:</span>
                 <span className="text-green-400">
-                  ${orderbook.bids.length > 0 ? Math.max(...orderbook.bids.map(b => b.price)).toFixed(2) : 'N/A'}
+                  {bestBid !== undefined ? formatQuote(bestBid, instrument) : 'N/A'}
                 </span>
               </div>
               <div className="flex justify-between">
                 <span>Best Ask:</span>
                 <span className="text-red-400">
-                  ${orderbook.asks.length > 0 ? Math.min(...orderbook.asks.map(a => a.price)).toFixed(2) : 'N/A'}
+                  {bestAsk !== undefined ? formatQuote(bestAsk, instrument) : 'N/A'}
                 </span>
               </div>
               <div className="flex justify-between">
@@ -677,8 +571,78 @@ const OrderbookDepthVisualizer: React.FC = () => {
                 <span className="text-blue-400">{historicalData.length}</span>
               </div>
             </div>
+            {venueLayers.length > 1 && (
+              <div className="mt-3 space-y-2 text-sm">
+                {venueLayers.map(({ venue, orderbook: venueBook }) => {
+                  const venueBid = venueBook.bids[0]?.price;
+                  const venueAsk = venueBook.asks[0]?.price;
+                  return (
+                    <div key={venue.id} className="border-t border-gray-700 pt-2">
+                      <div className="flex items-center space-x-2 mb-1">
+                        <div className="w-3 h-3 rounded" style={{ backgroundColor: venue.color }} />
+                        <span className="font-semibold">{venue.name}</span>
+                        {!books[venue.id]?.connected && <span className="text-xs text-red-400">offline</span>}
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Bid / Ask:</span>
+                        <span>
+                          <span className="text-green-400">{venueBid !== undefined ? formatPrice(venueBid, instrument) : 'N/A'}</span>
+                          {' / '}
+                          <span className="text-red-400">{venueAsk !== undefined ? formatPrice(venueAsk, instrument) : 'N/A'}</span>
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Spread:</span>
+                        <span className="text-yellow-400">
+                          {metrics[venue.id] && !Number.isNaN(metrics[venue.id].live.spread)
+                            ? `${formatQuote(metrics[venue.id].live.spread, instrument)} (${metrics[venue.id].live.spreadBps.toFixed(2)} bp)`
+                            : 'N/A'}
+                        </span>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
           </div>
 
+          {/* Microstructure */}
+          {headlineMetrics && (
+            <div>
+              <h3 className="text-lg font-semibold mb-2">Microstructure</h3>
+              <div className="flex items-center justify-between text-sm mb-2 space-x-2">
+                <label className="flex items-center space-x-1">
+                  <span>Top</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={metricSettings.topN}
+                    onChange={(e) => {
+                      const topN = parseInt(e.target.value);
+                      if (topN > 0) setMetricSettings({ ...metricSettings, topN });
+                    }}
+                    className="w-14 bg-gray-900 border border-gray-600 rounded px-2 py-1"
+                  />
+                </label>
+                <label className="flex items-center space-x-1">
+                  <span>±</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={metricSettings.depthBps}
+                    onChange={(e) => {
+                      const depthBps = parseFloat(e.target.value);
+                      if (depthBps > 0) setMetricSettings({ ...metricSettings, depthBps });
+                    }}
+                    className="w-14 bg-gray-900 border border-gray-600 rounded px-2 py-1"
+                  />
+                  <span>bp</span>
+                </label>
+              </div>
+              <MetricsPanel live={headlineMetrics.live} series={headlineMetrics.series} settings={metricSettings} instrument={instrument} />
+            </div>
+          )}
+
           {/* Venues */}
           <div>
             <h3 className="text-lg font-semibold mb-2">Trading Venues</h3>
@@ -696,15 +660,204 @@ const OrderbookDepthVisualizer: React.FC = () => {
                     style={{ backgroundColor: venue.color }}
                   />
                   <span>{venue.name}</span>
+                  {venue.id in endpoints && <span className="text-xs text-amber-400">mock</span>}
                 </label>
               ))}
             </div>
+            <div className="mt-3 space-y-2 text-sm">
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={mockExchange.enabled}
+                  onChange={(e) => setMockExchange(prev => ({ ...prev, enabled: e.target.checked }))}
+                  className="rounded"
+                />
+                <span>Local mock exchange</span>
+              </label>
+              {mockExchange.enabled && (
+                <div className="space-y-1">
+                  <input
+                    type="text"
+                    defaultValue={mockExchange.url}
+                    onBlur={(e) => setMockExchange(prev => ({ ...prev, url: e.target.value.trim() || DEFAULT_MOCK_EXCHANGE_URL }))}
+                    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                    className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 font-mono text-xs"
+                  />
+                  <div className="text-xs text-gray-400">Stands in for Binance; start it with npm run mock</div>
+                </div>
+              )}
+              <div className="flex rounded overflow-hidden border border-gray-600">
+                {(['venues', 'consolidated'] as const).map(view => (
+                  <button
+                    key={view}
+                    onClick={() => setBookView(view)}
+                    className={`flex-1 px-2 py-1 transition-colors ${bookView === view ? 'bg-blue-600' : 'hover:bg-gray-700'}`}
+                  >
+                    {view === 'venues' ? 'Side by Side' : 'Consolidated'}
+                  </button>
+                ))}
+              </div>
+              {bookView === 'consolidated' && (
+                <div className="flex items-center justify-between">
+                  <span>Price Bucket:</span>
+                  <select
+                    value={bucketMultiplier}
+                    onChange={(e) => setBucketMultiplier(parseFloat(e.target.value))}
+                    className="bg-gray-900 border border-gray-600 rounded px-2 py-1"
+                  >
+                    {BUCKET_MULTIPLIERS.map(multiplier => (
+                      <option key={multiplier} value={multiplier}>
+                        {formatPrice(baseBucketSize * multiplier, instrument)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Consolidated Book */}
+          {bookView === 'consolidated' && (
+            <div>
+              <h3 className="text-lg font-semibold mb-2">Consolidated Book</h3>
+              <ConsolidatedBook orderbook={consolidatedOrderbook} venues={streamVenues} instrument={instrument} />
+            </div>
+          )}
+
+          {/* Pinned Level */}
+          {pinnedLevel && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-lg font-semibold">Pinned Level</h3>
+                <button onClick={() => setPinnedLevel(null)} className="text-xs text-gray-400 hover:text-white">
+                  Unpin
+                </button>
+              </div>
+              <div className="text-sm space-y-1">
+                <div className="flex justify-between">
+                  <span className={pinnedLevel.type === 'bid' ? 'text-green-400' : 'text-red-400'}>
+                    {pinnedLevel.type === 'bid' ? 'Bid' : 'Ask'} {formatPrice(pinnedLevel.price, instrument)}
+                  </span>
+                  <span>{pinnedLayer?.venue.name ?? pinnedLevel.venue}</span>
+                </div>
+                {pinnedLayer ? (
+                  <>
+                    <Sparkline points={pinnedSeries} color={pinnedLevel.type === 'bid' ? '#4ade80' : '#f87171'} />
+                    <div className="flex justify-between text-xs text-gray-400">
+                      <span>Now: {formatQuantity(pinnedSeries[pinnedSeries.length - 1]?.value ?? 0, instrument)}</span>
+                      <span>Max: {formatQuantity(Math.max(0, ...pinnedSeries.map(point => point.value)), instrument)}</span>
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-xs text-gray-400">Venue is no longer shown</div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Camera */}
+          <div>
+            <h3 className="text-lg font-semibold mb-2">Camera</h3>
+            <div className="grid grid-cols-2 gap-1 text-sm">
+              {CAMERA_PRESETS.map(preset => (
+                <button
+                  key={preset.id}
+                  onClick={() => showCameraPreset(preset.id)}
+                  className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-left"
+                >
+                  <span className="text-gray-400 mr-1">{preset.key}</span>
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+            <div className="text-xs text-gray-400 mt-2">
+              Drag to orbit, right-drag or two fingers to pan, scroll or pinch to zoom. With the scene focused: arrows pan, +/- zoom, R resets.
+            </div>
           </div>
 
+          {/* Liquidity Walls */}
+          {showPressureZones && trackedWalls.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold mb-2">Liquidity Walls</h3>
+              <div className="text-xs font-mono space-y-px">
+                {[...trackedWalls]
+                  .sort((a, b) => b.wall.endTime - a.wall.endTime || b.wall.peakQuantity - a.wall.peakQuantity)
+                  .slice(0, 8)
+                  .map(({ venue, wall }) => (
+                    <div key={`${venue.id}-${wall.id}`} className="flex justify-between space-x-2">
+                      <span className={wall.side === 'bid' ? 'text-green-400' : 'text-red-400'}>
+                        {wall.priceLow === wall.priceHigh
+                          ? formatPrice(wall.priceLow, instrument)
+                          : `${formatPrice(wall.priceLow, instrument)}–${formatPrice(wall.priceHigh, instrument)}`}
+                      </span>
+                      <span>{formatQuantity(wall.peakQuantity, instrument)}</span>
+                      <span className="text-gray-400">{((wall.endTime - wall.startTime) / 1000).toFixed(0)}s</span>
+                      <span className={WALL_STATUS_COLORS[wall.status]}>
+                        {wall.status}
+                      </span>
+                    </div>
+                  ))}
+              </div>
+            </div>
+          )}
+
+          {/* Trade Flow */}
+          {tradeFlow && tradeFlow.perVenue.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold mb-2">Trade Flow</h3>
+              <div className="space-y-2 text-sm">
+                {tradeFlow.perVenue.map(({ venue, trades, summary, hints }) => (
+                  <div key={venue.id} className="space-y-1">
+                    {tradeFlow.perVenue.length > 1 && (
+                      <div className="flex items-center space-x-2 font-semibold">
+                        <div className="w-3 h-3 rounded" style={{ backgroundColor: venue.color }} />
+                        <span>{venue.name}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between">
+                      <span>Trades:</span>
+                      <span>{trades.length}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Bids executed / cancelled:</span>
+                      <span className="text-green-400">{formatQuantity(summary.executed.bids, instrument)} / {formatQuantity(summary.cancelled.bids, instrument)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Asks executed / cancelled:</span>
+                      <span className="text-red-400">{formatQuantity(summary.executed.asks, instrument)} / {formatQuantity(summary.cancelled.asks, instrument)}</span>
+                    </div>
+                    {[...hints].sort((a, b) => b.lastTime - a.lastTime).slice(0, 5).map(hint => (
+                      <div key={`${hint.kind}-${hint.side}-${hint.price}`} className="flex justify-between text-xs font-mono">
+                        <span className={hint.kind === 'spoof' ? 'text-orange-400' : 'text-cyan-400'}>
+                          {hint.kind === 'spoof' ? 'Spoof?' : 'Iceberg?'}
+                        </span>
+                        <span className={hint.side === 'bid' ? 'text-green-400' : 'text-red-400'}>{formatPrice(hint.price, instrument)}</span>
+                        <span className="text-gray-400">
+                          {hint.count}× · {formatQuantity(hint.volume, instrument)} {hint.kind === 'spoof' ? 'pulled' : 'filled'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Visualization Options */}
           <div>
             <h3 className="text-lg font-semibold mb-2">Visualization</h3>
             <div className="space-y-2">
+              <div className="flex rounded overflow-hidden border border-gray-600 text-sm">
+                {RENDER_MODES.map(mode => (
+                  <button
+                    key={mode.value}
+                    onClick={() => setRenderMode(mode.value)}
+                    className={`flex-1 px-2 py-1 transition-colors ${renderMode === mode.value ? 'bg-blue-600' : 'hover:bg-gray-700'}`}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
               <label className="flex items-center space-x-2 cursor-pointer">
                 <input
                   type="checkbox"
@@ -714,26 +867,262 @@ const OrderbookDepthVisualizer: React.FC = () => {
                 />
                 <span>Show Pressure Zones</span>
               </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showImbalance}
+                  onChange={(e) => setShowImbalance(e.target.checked)}
+                  className="rounded"
+                />
+                <span>Imbalance Strip</span>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showTrades}
+                  onChange={(e) => setShowTrades(e.target.checked)}
+                  className="rounded"
+                />
+                <span>Trades &amp; Flow Hints</span>
+              </label>
+              {showPressureZones && (
+                <div className="flex items-center justify-between text-sm pl-6">
+                  <select
+                    value={wallDetection.mode}
+                    onChange={(e) => {
+                      const threshold = WALL_THRESHOLDS.find(option => option.value === e.target.value)!;
+                      setWallDetection({ ...wallDetection, mode: threshold.value, value: threshold.defaultValue });
+                    }}
+                    className="bg-gray-900 border border-gray-600 rounded px-2 py-1"
+                  >
+                    {WALL_THRESHOLDS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    step={WALL_THRESHOLDS.find(option => option.value === wallDetection.mode)?.step}
+                    value={wallDetection.value}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (value > 0) setWallDetection({ ...wallDetection, value });
+                    }}
+                    className="w-16 bg-gray-900 border border-gray-600 rounded px-2 py-1"
+                  />
+                </div>
+              )}
+              <label className={`flex items-center space-x-2 ${renderMode === 'bars' ? 'cursor-pointer' : 'opacity-50'}`}>
+                <input
+                  type="checkbox"
+                  checked={cumulativeDepth}
+                  disabled={renderMode !== 'bars'}
+                  onChange={(e) => setCumulativeDepth(e.target.checked)}
+                  className="rounded"
+                />
+                <span>Cumulative Depth Walls</span>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showDepthChart}
+                  onChange={(e) => setShowDepthChart(e.target.checked)}
+                  className="rounded"
+                />
+                <span>Show Depth Chart</span>
+              </label>
+            </div>
+          </div>
+
+          {/* Time Axis */}
+          <div>
+            <h3 className="text-lg font-semibold mb-2">Time Axis</h3>
+            <div className="space-y-2 text-sm">
+              <div className="flex items-center justify-between">
+                <span>Window:</span>
+                <select
+                  value={history.windowMs}
+                  onChange={(e) => setHistory(withWindow(history, parseInt(e.target.value)))}
+                  className="bg-gray-900 border border-gray-600 rounded px-2 py-1"
+                >
+                  {WINDOW_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center justify-between">
+                <span>Sampling:</span>
+                <select
+                  value={history.sampleIntervalMs}
+                  onChange={(e) => setHistory({ ...history, sampleIntervalMs: parseInt(e.target.value) })}
+                  className="bg-gray-900 border border-gray-600 rounded px-2 py-1"
+                >
+                  {SAMPLE_OPTIONS.map(option => (
+                    <option
+                      key={option.value}
+                      value={option.value}
+                      disabled={history.windowMs / option.value > MAX_SLICES || option.value >= history.windowMs}
+                    >
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center justify-between">
+                <span>Depth per side:</span>
+                <select
+                  value={history.depth}
+                  onChange={(e) => setHistory({ ...history, depth: parseInt(e.target.value) })}
+                  className="bg-gray-900 border border-gray-600 rounded px-2 py-1"
+                >
+                  {DEPTH_OPTIONS.map(depth => (
+                    <option key={depth} value={depth}>{depth}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          {/* Price Axis */}
+          <div>
+            <h3 className="text-lg font-semibold mb-2">Price Axis</h3>
+            <div className="space-y-2 text-sm">
+              <div className="flex items-center justify-between">
+                <span>Range:</span>
+                <select
+                  value={priceAxis.mode}
+                  onChange={(e) => {
+                    const mode = PRICE_AXIS_MODES.find(option => option.value === e.target.value)!;
+                    setPriceAxis({ ...priceAxis, mode: mode.value, range: mode.defaultRange });
+                  }}
+                  className="bg-gray-900 border border-gray-600 rounded px-2 py-1"
+                >
+                  {PRICE_AXIS_MODES.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              {priceAxis.mode !== 'fit' && (
+                <div className="flex items-center justify-between">
+                  <span>Mid ±:</span>
+                  <span className="flex items-center space-x-1">
+                    <input
+                      type="number"
+                      min={0}
+                      value={priceAxis.range}
+                      onChange={(e) => {
+                        const range = parseFloat(e.target.value);
+                        if (range > 0) setPriceAxis({ ...priceAxis, range });
+                      }}
+                      className="w-20 bg-gray-900 border border-gray-600 rounded px-2 py-1"
+                    />
+                    <span className="text-gray-400">
+                      {priceAxis.mode === 'absolute' ? instrument.quoteAsset : PRICE_AXIS_MODES.find(option => option.value === priceAxis.mode)?.unit}
+                    </span>
+                  </span>
+                </div>
+              )}
+              <div className="flex items-center justify-between">
+                <span>Anchor:</span>
+                <select
+                  value={priceAxis.anchor}
+                  onChange={(e) => setPriceAxis({ ...priceAxis, anchor: e.target.value as PriceAxisSettings['anchor'] })}
+                  className="bg-gray-900 border border-gray-600 rounded px-2 py-1"
+                >
+                  <option value="reference">Latest mid</option>
+                  <option value="slice">Each slice&apos;s mid</option>
+                </select>
+              </div>
             </div>
           </div>
 
           {showFilters && (
             <div>
               <h3 className="text-lg font-semibold mb-2">Filters</h3>
-              <div className="space-y-3">
+              <div className="space-y-3 text-sm">
                 <div>
-                  <label className="block text-sm mb-1">Min Quantity</label>
+                  <label className="block mb-1">Min Quantity</label>
                   <input
                     type="range"
                     min="0"
                     max="10"
                     step="0.1"
-                    value={quantityThreshold}
-                    onChange={(e) => setQuantityThreshold(parseFloat(e.target.value))}
+                    value={filters.minQuantity}
+                    onChange={(e) => setFilters({ ...filters, minQuantity: parseFloat(e.target.value) })}
                     className="w-full"
                   />
-                  <span className="text-xs text-gray-400">{quantityThreshold}</span>
+                  <span className="text-xs text-gray-400">{filters.minQuantity}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span>Min Notional:</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={1000}
+                    value={filters.minNotional}
+                    onChange={(e) => setFilters({ ...filters, minNotional: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    className="w-24 bg-gray-900 border border-gray-600 rounded px-2 py-1"
+                  />
                 </div>
+                <div className="flex items-center justify-between">
+                  <span>Side:</span>
+                  <select
+                    value={filters.side}
+                    onChange={(e) => setFilters({ ...filters, side: e.target.value as SideFilter })}
+                    className="bg-gray-900 border border-gray-600 rounded px-2 py-1"
+                  >
+                    <option value="both">Both</option>
+                    <option value="bids">Bids only</option>
+                    <option value="asks">Asks only</option>
+                  </select>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span>Price band:</span>
+                  <span className="flex items-center space-x-1">
+                    <select
+                      value={filters.priceBand.mode}
+                      onChange={(e) => setFilters({
+                        ...filters,
+                        priceBand: { ...filters.priceBand, mode: e.target.value as LevelFilters['priceBand']['mode'] }
+                      })}
+                      className="bg-gray-900 border border-gray-600 rounded px-2 py-1"
+                    >
+                      <option value="off">Off</option>
+                      <option value="absolute">± price</option>
+                      <option value="bps">± bp</option>
+                    </select>
+                    {filters.priceBand.mode !== 'off' && (
+                      <input
+                        type="number"
+                        min={0}
+                        value={filters.priceBand.width}
+                        onChange={(e) => setFilters({
+                          ...filters,
+                          priceBand: { ...filters.priceBand, width: Math.max(0, parseFloat(e.target.value) || 0) }
+                        })}
+                        className="w-16 bg-gray-900 border border-gray-600 rounded px-2 py-1"
+                      />
+                    )}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span>Max age (s):</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={filters.maxAgeMs / 1000}
+                    onChange={(e) => setFilters({ ...filters, maxAgeMs: Math.max(0, parseFloat(e.target.value) || 0) * 1000 })}
+                    className="w-16 bg-gray-900 border border-gray-600 rounded px-2 py-1"
+                  />
+                </div>
+                {activeFilters.length > 0 && (
+                  <button
+                    onClick={() => setFilters(DEFAULT_LEVEL_FILTERS)}
+                    className="text-xs text-gray-400 hover:text-white"
+                  >
+                    Clear filters
+                  </button>
+                )}
               </div>
             </div>
           )}
@@ -751,8 +1140,34 @@ const OrderbookDepthVisualizer: React.FC = () => {
                 <span>Ask Orders</span>
               </div>
               <div className="flex items-center space-x-2">
-                <div className="w-4 h-4 bg-yellow-400 rounded-full opacity-30"></div>
-                <span>Pressure Zones</span>
+                <div className="w-4 h-4 bg-emerald-400 rounded-full"></div>
+                <span>Buy / </span>
+                <div className="w-4 h-4 bg-rose-500 rounded-full"></div>
+                <span>Sell Trades</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-1 bg-orange-500"></div>
+                <span>Suspected Spoofing</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-1 bg-cyan-400"></div>
+                <span>Suspected Iceberg</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-4 border border-white rounded opacity-60"></div>
+                <span>Liquidity Wall (active)</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-4 border border-amber-400 rounded"></div>
+                <span>Wall Pulled</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-4 border border-purple-500 rounded"></div>
+                <span>Wall Absorbed</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-4 border border-gray-400 rounded"></div>
+                <span>Wall Merged</span>
               </div>
             </div>
           </div>
@@ -778,10 +1193,6 @@ const OrderbookDepthVisualizer: React.FC = () => {
 
           {/* Instructions */}
           <div className="text-xs text-gray-400 space-y-1">
-            <p><strong>Mouse Controls:</strong></p>
-            <p>• Click + Drag: Rotate view</p>
-            <p>• Scroll: Zoom in/out</p>
-            <p>• Auto-rotation can be toggled</p>
             <p><strong>Visualization:</strong></p>
             <p>• Green bars: Bid orders</p>
             <p>• Red bars: Ask orders</p>
@@ -790,36 +1201,107 @@ const OrderbookDepthVisualizer: React.FC = () => {
           </div>
         </div>
 
-        {/* 3D Visualization */}
-        <div className="flex-1 relative">
-          <ThreeJSVisualization
-            orderbook={orderbook}
-            historicalData={historicalData}
-            isRotating={isRotating}
-            showPressureZones={showPressureZones}
-            darkMode={darkMode}
-          />
-          
-          {/* Loading overlay */}
-          {!connected && (
-            <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-75">
-              <div className="text-center">
-                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
-                <p className="text-white">Connecting to market data...</p>
+        {/* 3D Visualization: the main view, then any comparison panes */}
+        <div className={`flex-1 grid gap-px bg-gray-700 ${PANE_GRIDS[paneCount]}`}>
+          <div className="relative min-w-0 min-h-0">
+            <ThreeJSVisualization
+              {...sharedScene}
+              layers={sceneLayers}
+              venues={streamVenues}
+              history={history}
+              instrument={instrument}
+              walls={sceneWalls}
+              flow={tradeFlow?.overlay ?? null}
+              imbalance={showImbalance ? headlineMetrics?.series ?? NO_METRICS : NO_METRICS}
+              onPinLevel={bar => setPinnedLevel(bar && { venue: bar.venue, type: bar.type, price: bar.price })}
+              onCameraChange={trackCamera}
+            />
+            
+            {/* Loading overlay */}
+            {!connected && !replay.status && (
+              <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-75">
+                {enabledVenues.length === 0 ? (
+                  <p className="text-white">Select a trading venue to start streaming</p>
+                ) : (
+                  <div className="text-center">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+                    <p className="text-white">
+                      {reconnecting ? `${reconnecting.venue.name}: ${describeConnection(reconnecting.status)}...` : 'Connecting to market data...'}
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+            
+            {/* Depth chart */}
+            {showDepthChart && !comparing && orderbook.bids.length > 0 && orderbook.asks.length > 0 && (
+              <div className="absolute bottom-36 left-4 bg-black bg-opacity-50 text-white p-3 rounded-lg">
+                <div className="text-sm font-semibold mb-1">Cumulative Depth</div>
+                <DepthChart curve={depth} instrument={instrument} />
+              </div>
+            )}
+
+            {/* Timeline */}
+            {timelineSamples.length > 0 && (
+              <div className="absolute bottom-20 left-4 right-4 bg-black bg-opacity-50 text-white px-3 py-2 rounded-lg">
+                <TimelineScrubber samples={timelineSamples} cursor={timeCursor} onSeek={setTimeCursor} />
+              </div>
+            )}
+
+            {/* Info overlay */}
+            <div className="absolute top-4 right-4 bg-black bg-opacity-50 text-white p-4 rounded-lg">
+              <div className="text-sm space-y-1">
+                <div>Symbol: <span className="font-bold text-yellow-400">{streamSymbol}</span></div>
+                <div>Venues: <span className="font-bold">{streamVenues.map(venue => venue.name).join(', ') || 'None'}</span></div>
+                <div>Updates: <span className="font-bold text-green-400">{historicalData.length}</span></div>
+                {timeCursor !== null && (
+                  <div>Viewing: <span className="font-bold text-amber-400">{new Date(timeCursor).toLocaleTimeString([], { hour12: false })}</span></div>
+                )}
+                <div>Status: {replay.status ? (
+                  <span className="font-bold text-amber-400">Replay {replay.status.playing ? `${replay.status.speed}×` : 'paused'}</span>
+                ) : (
+                  <span className={`font-bold ${connected ? 'text-green-400' : 'text-red-400'}`}>
+                    {connected ? 'Live' : 'Disconnected'}
+                  </span>
+                )}</div>
+                {activeFilters.length > 0 && (
+                  <div className="text-xs text-gray-300">
+                    Filters: <span className="text-white">{activeFilters.join(' · ')}</span>
+                  </div>
+                )}
+                {streamVenues.filter(venue => books[venue.id]).map(venue => {
+                  const { orderbook: venueBook, synced, resyncCount } = books[venue.id];
+                  return (
+                    <div key={venue.id} className="flex items-center space-x-2 text-xs text-gray-300">
+                      <span className={`w-2 h-2 rounded-full ${synced ? 'bg-green-400' : 'bg-yellow-400'}`} />
+                      <span>{venue.name}</span>
+                      <span className="text-white">{describeConnection(books[venue.id])}</span>
+                      <span>seq <span className="font-mono text-white">{venueBook.lastUpdateId || '-'}</span></span>
+                      <span>· {resyncCount} resync{resyncCount === 1 ? '' : 's'}</span>
+                    </div>
+                  );
+                })}
               </div>
-            </div>
-          )}
-          
-          {/* Info overlay */}
-          <div className="absolute top-4 right-4 bg-black bg-opacity-50 text-white p-4 rounded-lg">
-            <div className="text-sm space-y-1">
-              <div>Symbol: <span className="font-bold text-yellow-400">{symbol}</span></div>
-              <div>Updates: <span className="font-bold text-green-400">{historicalData.length}</span></div>
-              <div>Status: <span className={`font-bold ${connected ? 'text-green-400' : 'text-red-400'}`}>
-                {connected ? 'Live' : 'Disconnected'}
-              </span></div>
             </div>
           </div>
+          {visiblePanes.map((pane, index) => (
+            <ComparisonPane
+              key={index}
+              pane={pane}
+              onChange={next => updatePane(index, next)}
+              venues={venues}
+              instruments={instruments}
+              instrumentsBySymbol={bySymbol}
+              instrumentsError={instrumentsError}
+              history={history}
+              syncWindow={viewSync.timeWindow}
+              metricSettings={metricSettings}
+              wallDetection={wallDetection}
+              endpoints={endpoints}
+              scene={{ ...sharedScene, isRotating: isRotating && !sharedScene.cameraSync }}
+              onQuantityScale={scale => reportPaneScale(index, scale)}
+            />
+          ))}
         </div>
       </div>
     </div>
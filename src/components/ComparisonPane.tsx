@@ -0,0 +1,164 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { HistorySettings, Venue, VenueOrderbook } from '@/types/orderbook';
+import { useOrderbookWebSocket } from '@/hooks/useOrderbookWebSocket';
+import { midPrice } from '@/lib/orderbook/depth';
+import { BookMetrics, MetricSettings } from '@/lib/orderbook/metrics';
+import { WallDetectionSettings, trackLiquidityWalls } from '@/lib/orderbook/liquidityWalls';
+import { notionalLayer, peakLevelQuantity } from '@/lib/orderbook/normalize';
+import { InstrumentInfo, VenueEndpoints, formatPrice, guessInstrument } from '@/lib/venues';
+import { niceCeil } from '@/lib/visualization/priceAxis';
+import { ComparisonPaneSettings } from '@/lib/visualization/layout';
+import { WINDOW_OPTIONS, withWindow } from '@/lib/visualization/timeAxis';
+import ConnectionBadge from '@/components/ConnectionBadge';
+import SymbolPicker from '@/components/SymbolPicker';
+import ThreeJSVisualization from '@/components/ThreeJSVisualization';
+
+// Scene settings every pane of a layout shares with the main view
+export type SharedSceneProps = Pick<
+  React.ComponentProps<typeof ThreeJSVisualization>,
+  'renderMode' | 'cumulative' | 'priceAxis' | 'showPressureZones' | 'darkMode' | 'cameraView' | 'isRotating' | 'cameraSync' | 'quantityScale' | 'notional'
+>;
+
+const NO_METRICS: BookMetrics[] = [];
+
+// One extra book in the comparison layout: its own symbol and venues on their own stream,
+// drawn with the main view's scene settings
+const ComparisonPane: React.FC<{
+  pane: ComparisonPaneSettings;
+  onChange: (pane: ComparisonPaneSettings) => void;
+  // Every known venue; the pane streams those it lists
+  venues: Venue[];
+  instruments: InstrumentInfo[];
+  instrumentsBySymbol: Map<string, InstrumentInfo>;
+  instrumentsError: string | null;
+  // The main view's history; its window is swapped for the pane's own unless windows are synced
+  history: HistorySettings;
+  syncWindow: boolean;
+  metricSettings: MetricSettings;
+  wallDetection: WallDetectionSettings;
+  endpoints: Record<string, VenueEndpoints>;
+  scene: SharedSceneProps;
+  // Peak notional level of the pane, rounded, for the layout's shared height scale; 0 when not normalized
+  onQuantityScale: (scale: number) => void;
+}> = ({
+  pane,
+  onChange,
+  venues,
+  instruments,
+  instrumentsBySymbol,
+  instrumentsError,
+  history: sharedHistory,
+  syncWindow,
+  metricSettings,
+  wallDetection,
+  endpoints,
+  scene,
+  onQuantityScale
+}) => {
+  const onQuantityScaleRef = useRef(onQuantityScale);
+  onQuantityScaleRef.current = onQuantityScale;
+
+  const history = useMemo(() => (
+    syncWindow ? sharedHistory : withWindow(sharedHistory, pane.windowMs)
+  ), [syncWindow, sharedHistory, pane.windowMs]);
+  const { books, connected, error } = useOrderbookWebSocket(pane.symbol, pane.venueIds, history, metricSettings, endpoints);
+
+  const paneVenues = useMemo(() => venues.filter(venue => pane.venueIds.includes(venue.id)), [venues, pane.venueIds]);
+  const layers = useMemo<VenueOrderbook[]>(() => (
+    paneVenues
+      .filter(venue => books[venue.id])
+      .map(venue => ({ venue, orderbook: books[venue.id].orderbook, historicalData: books[venue.id].historicalData }))
+  ), [paneVenues, books]);
+  const sceneLayers = useMemo(() => (scene.notional ? layers.map(notionalLayer) : layers), [layers, scene.notional]);
+
+  const walls = useMemo(() => (
+    scene.showPressureZones ? sceneLayers.flatMap(layer => trackLiquidityWalls(layer.historicalData, wallDetection)) : []
+  ), [scene.showPressureZones, sceneLayers, wallDetection]);
+
+  const quantityScale = scene.notional ? niceCeil(peakLevelQuantity(sceneLayers)) : 0;
+  useEffect(() => {
+    onQuantityScaleRef.current(quantityScale);
+  }, [quantityScale]);
+
+  const book = layers[0]?.orderbook;
+  const mid = book ? midPrice(book) : NaN;
+  const spreadBps = book?.bids.length && book.asks.length ? ((book.asks[0].price - book.bids[0].price) / mid) * 10_000 : NaN;
+  const priceMagnitude = mid > 0 ? Math.pow(10, Math.floor(Math.log10(mid))) : 0;
+  const instrument = useMemo(() => (
+    instrumentsBySymbol.get(pane.symbol) ?? guessInstrument(pane.symbol, priceMagnitude || undefined)
+  ), [instrumentsBySymbol, pane.symbol, priceMagnitude]);
+
+  const toggleVenue = (venueId: string) => {
+    const venueIds = pane.venueIds.includes(venueId)
+      ? pane.venueIds.filter(id => id !== venueId)
+      : venues.map(venue => venue.id).filter(id => id === venueId || pane.venueIds.includes(id));
+    onChange({ ...pane, venueIds });
+  };
+
+  return (
+    <div className="relative min-w-0 min-h-0">
+      <ThreeJSVisualization
+        {...scene}
+        layers={sceneLayers}
+        venues={paneVenues}
+        history={history}
+        instrument={instrument}
+        walls={walls}
+        flow={null}
+        imbalance={NO_METRICS}
+      />
+
+      {/* Pane controls */}
+      <div className="absolute top-2 left-2 flex flex-wrap items-center gap-2 text-sm text-white">
+        <SymbolPicker instruments={instruments} value={pane.symbol} onChange={symbol => onChange({ ...pane, symbol })} error={instrumentsError} align="left" />
+        <div className="flex rounded overflow-hidden border border-gray-600 bg-gray-800">
+          {venues.map(venue => {
+            const enabled = pane.venueIds.includes(venue.id);
+            return (
+              <button
+                key={venue.id}
+                onClick={() => toggleVenue(venue.id)}
+                title={venue.name}
+                className={`flex items-center space-x-1 px-2 py-1 transition-colors ${enabled ? 'bg-gray-700' : 'opacity-50 hover:opacity-100'}`}
+              >
+                <span className="inline-block w-2 h-2 rounded" style={{ backgroundColor: venue.color }} />
+                <span className="text-xs">{venue.name}</span>
+              </button>
+            );
+          })}
+        </div>
+        {!syncWindow && (
+          <select
+            value={pane.windowMs}
+            onChange={(e) => onChange({ ...pane, windowMs: parseInt(e.target.value) })}
+            className="bg-gray-800 border border-gray-600 rounded px-2 py-1"
+          >
+            {WINDOW_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        )}
+        {paneVenues.length > 0 && (
+          <ConnectionBadge statuses={paneVenues.filter(venue => books[venue.id]).map(venue => ({ venue, status: books[venue.id] }))} />
+        )}
+      </div>
+
+      {/* Pane stats */}
+      <div className="absolute bottom-2 right-2 bg-black bg-opacity-50 text-white text-xs font-mono px-2 py-1 rounded">
+        {pane.symbol} · mid {formatPrice(mid, instrument)} · spread {Number.isNaN(spreadBps) ? '-' : `${spreadBps.toFixed(2)} bp`}
+      </div>
+
+      {(paneVenues.length === 0 || !connected || error) && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <p className={`text-sm bg-black bg-opacity-50 px-3 py-2 rounded ${error ? 'text-red-400' : 'text-white'}`}>
+            {paneVenues.length === 0 ? 'Select a venue for this pane' : error ?? 'Connecting to market data...'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonPane;
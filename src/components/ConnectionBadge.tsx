@@ -0,0 +1,58 @@
+'use client';
+
+import React from 'react';
+import { Venue } from '@/types/orderbook';
+import { ConnectionState, VenueFeedStatus } from '@/lib/orderbook/venueFeed';
+
+// Worst first: the badge shows the state of the least healthy venue
+const SEVERITY: ConnectionState[] = ['reconnecting', 'stale', 'connecting', 'syncing', 'live'];
+
+const STYLES: Record<ConnectionState, string> = {
+  reconnecting: 'bg-orange-500',
+  stale: 'bg-yellow-500 text-gray-900',
+  connecting: 'bg-blue-500 animate-pulse',
+  syncing: 'bg-blue-500',
+  live: 'bg-green-500'
+};
+
+export const describeConnection = ({ state, attempt }: VenueFeedStatus) => {
+  switch (state) {
+    case 'reconnecting':
+      return `Reconnecting (attempt ${attempt})`;
+    case 'stale':
+      return 'Stale';
+    case 'connecting':
+      return 'Connecting';
+    case 'syncing':
+      return 'Syncing';
+    case 'live':
+      return 'Live';
+  }
+};
+
+// Header badge summarizing every streaming venue; hover for the per-venue states
+const ConnectionBadge: React.FC<{
+  statuses: { venue: Venue; status: VenueFeedStatus }[];
+}> = ({ statuses }) => {
+  if (statuses.length === 0) {
+    return <div className="px-3 py-1 rounded-full text-sm bg-gray-600">No venues</div>;
+  }
+
+  const worst = statuses.reduce((current, entry) => (
+    SEVERITY.indexOf(entry.status.state) < SEVERITY.indexOf(current.status.state) ? entry : current
+  ));
+  const live = statuses.filter(({ status }) => status.state === 'live').length;
+
+  return (
+    <div
+      className={`px-3 py-1 rounded-full text-sm ${STYLES[worst.status.state]}`}
+      title={statuses.map(({ venue, status }) => `${venue.name}: ${describeConnection(status)}`).join('\n')}
+    >
+      {statuses.length > 1 && worst.status.state !== 'live' ? `${worst.venue.name} ` : ''}
+      {describeConnection(worst.status)}
+      {statuses.length > 1 && <span className="opacity-75"> · {live}/{statuses.length} live</span>}
+    </div>
+  );
+};
+
+export default ConnectionBadge;
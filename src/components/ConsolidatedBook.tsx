@@ -0,0 +1,90 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Venue } from '@/types/orderbook';
+import { AggregatedLevel, AggregatedOrderbook } from '@/lib/orderbook/aggregate';
+import { InstrumentInfo, formatPrice, formatQuantity } from '@/lib/venues';
+
+interface SelectedLevel {
+  side: 'bid' | 'ask';
+  price: number;
+}
+
+// Merged ladder: each row shows its size split by venue; hover or click a row for the breakdown
+const ConsolidatedBook: React.FC<{
+  orderbook: AggregatedOrderbook;
+  venues: Venue[];
+  instrument: InstrumentInfo;
+  depth?: number;
+}> = ({ orderbook, venues, instrument, depth = 8 }) => {
+  const [hovered, setHovered] = useState<SelectedLevel | null>(null);
+  const [pinned, setPinned] = useState<SelectedLevel | null>(null);
+
+  const asks = orderbook.asks.slice(0, depth).reverse();
+  const bids = orderbook.bids.slice(0, depth);
+  const maxQuantity = Math.max(...asks.map(l => l.quantity), ...bids.map(l => l.quantity), 1e-12);
+
+  const active = hovered ?? pinned;
+  const activeLevel = active
+    ? (active.side === 'bid' ? orderbook.bids : orderbook.asks).find(level => level.price === active.price)
+    : undefined;
+
+  const renderRow = (level: AggregatedLevel, side: 'bid' | 'ask') => {
+    const isPinned = pinned?.side === side && pinned.price === level.price;
+    return (
+      <div
+        key={`${side}-${level.price}`}
+        className={`relative flex justify-between px-1 cursor-pointer rounded ${isPinned ? 'bg-gray-700' : 'hover:bg-gray-700'}`}
+        onMouseEnter={() => setHovered({ side, price: level.price })}
+        onMouseLeave={() => setHovered(null)}
+        onClick={() => setPinned(isPinned ? null : { side, price: level.price })}
+      >
+        <div className="absolute inset-y-0 left-0 flex opacity-40" style={{ width: `${(level.quantity / maxQuantity) * 100}%` }}>
+          {venues.filter(venue => level.venues[venue.id]).map(venue => (
+            <div
+              key={venue.id}
+              style={{ width: `${(level.venues[venue.id] / level.quantity) * 100}%`, backgroundColor: venue.color }}
+            />
+          ))}
+        </div>
+        <span className={`relative ${side === 'bid' ? 'text-green-400' : 'text-red-400'}`}>{formatPrice(level.price, instrument)}</span>
+        <span className="relative">{formatQuantity(level.quantity, instrument)}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="text-xs font-mono">
+      <div className="space-y-px">
+        {asks.map(level => renderRow(level, 'ask'))}
+        <div className="border-t border-gray-600 my-1" />
+        {bids.map(level => renderRow(level, 'bid'))}
+      </div>
+
+      {activeLevel && (
+        <div className="mt-2 p-2 rounded bg-gray-900 space-y-1">
+          <div className="flex justify-between font-semibold">
+            <span className={active?.side === 'bid' ? 'text-green-400' : 'text-red-400'}>
+              {active?.side === 'bid' ? 'Bid' : 'Ask'} {formatPrice(activeLevel.price, instrument)}
+            </span>
+            <span>{formatQuantity(activeLevel.quantity, instrument)}</span>
+          </div>
+          {venues.filter(venue => activeLevel.venues[venue.id]).map(venue => (
+            <div key={venue.id} className="flex justify-between">
+              <span className="flex items-center space-x-1">
+                <span className="inline-block w-2 h-2 rounded" style={{ backgroundColor: venue.color }} />
+                <span>{venue.name}</span>
+              </span>
+              <span>
+                {formatQuantity(activeLevel.venues[venue.id], instrument)}
+                <span className="text-gray-400"> ({((activeLevel.venues[venue.id] / activeLevel.quantity) * 100).toFixed(1)}%)</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConsolidatedBook;
@@ -0,0 +1,67 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { DepthCurve, DepthPoint } from '@/lib/orderbook/depth';
+import { InstrumentInfo, formatPrice, formatQuantity } from '@/lib/venues';
+
+const WIDTH = 320;
+const HEIGHT = 160;
+const PADDING = 4;
+
+// Classic 2D depth chart of the latest book: cumulative bids stepping down to the left of the mid,
+// cumulative asks stepping up to the right
+const DepthChart: React.FC<{
+  curve: DepthCurve;
+  instrument: InstrumentInfo;
+}> = ({ curve, instrument }) => {
+  const paths = useMemo(() => {
+    const { bids, asks } = curve;
+    if (bids.length === 0 || asks.length === 0) return null;
+
+    const minPrice = bids[bids.length - 1].price;
+    const maxPrice = asks[asks.length - 1].price;
+    const maxCumulative = Math.max(curve.totals.bids, curve.totals.asks, 1e-12);
+
+    const x = (price: number) => PADDING + ((price - minPrice) / (maxPrice - minPrice || 1)) * (WIDTH - PADDING * 2);
+    const y = (cumulative: number) => HEIGHT - PADDING - (cumulative / maxCumulative) * (HEIGHT - PADDING * 2);
+
+    const stepArea = (points: DepthPoint[]) => {
+      const commands = [`M${x(points[0].price)},${y(0)}`];
+      points.forEach((point, index) => {
+        commands.push(`L${x(point.price)},${y(point.cumulative)}`);
+        const next = points[index + 1];
+        if (next) commands.push(`L${x(next.price)},${y(point.cumulative)}`);
+      });
+      commands.push(`L${x(points[points.length - 1].price)},${y(0)}Z`);
+      return commands.join(' ');
+    };
+
+    return {
+      bids: stepArea(bids),
+      asks: stepArea(asks),
+      midX: (x(bids[0].price) + x(asks[0].price)) / 2,
+      minPrice,
+      maxPrice,
+      maxCumulative
+    };
+  }, [curve]);
+
+  if (!paths) return null;
+
+  return (
+    <div className="text-xs">
+      <svg width={WIDTH} height={HEIGHT} className="block">
+        <path d={paths.bids} fill="rgba(34,197,94,0.35)" stroke="#22c55e" strokeWidth={1} />
+        <path d={paths.asks} fill="rgba(239,68,68,0.35)" stroke="#ef4444" strokeWidth={1} />
+        <line x1={paths.midX} x2={paths.midX} y1={PADDING} y2={HEIGHT - PADDING} stroke="#facc15" strokeDasharray="3 3" />
+        <text x={PADDING} y={PADDING + 10} fill="#9ca3af">{formatQuantity(paths.maxCumulative, instrument)} {instrument.baseAsset}</text>
+      </svg>
+      <div className="flex justify-between text-gray-400">
+        <span>{formatPrice(paths.minPrice, instrument)}</span>
+        <span>{formatPrice(paths.maxPrice, instrument)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default DepthChart;
@@ -0,0 +1,49 @@
+'use client';
+
+import React from 'react';
+import { Venue } from '@/types/orderbook';
+import { BarData } from '@/lib/visualization/instancedBars';
+import { InstrumentInfo, formatPrice, formatQuantity, formatQuote } from '@/lib/venues';
+
+// Details of the bar under the pointer; x and y are relative to the canvas
+const LevelTooltip: React.FC<{
+  bar: BarData;
+  venue?: Venue;
+  venues: Venue[];
+  instrument: InstrumentInfo;
+  // The bar's quantity is already notional
+  notional?: boolean;
+  x: number;
+  y: number;
+}> = ({ bar, venue, venues, instrument, notional = false, x, y }) => {
+  const bps = ((bar.price - bar.mid) / bar.mid) * 10_000;
+  const toSize = (quantity: number) => (notional ? quantity / bar.price : quantity);
+  const size = toSize(bar.quantity);
+
+  return (
+    <div
+      className="absolute pointer-events-none bg-black bg-opacity-80 text-white text-xs font-mono p-2 rounded space-y-px"
+      style={{ left: x + 12, top: y + 12 }}
+    >
+      <div className={`font-semibold ${bar.type === 'bid' ? 'text-green-400' : 'text-red-400'}`}>
+        {bar.type === 'bid' ? 'Bid' : 'Ask'} {formatPrice(bar.price, instrument)}
+      </div>
+      <div>Size: {formatQuantity(size, instrument)} {instrument.baseAsset}</div>
+      <div>Notional: {formatQuote(bar.price * size, instrument)}</div>
+      <div>From mid: {Number.isNaN(bps) ? '-' : `${bps > 0 ? '+' : ''}${bps.toFixed(1)} bp`}</div>
+      <div>Time: {new Date(bar.timestamp).toLocaleTimeString()}</div>
+      <div className="flex items-center space-x-1">
+        <span className="inline-block w-2 h-2 rounded" style={{ backgroundColor: venue?.color }} />
+        <span>{venue?.name ?? bar.venue}</span>
+      </div>
+      {bar.venues && venues.filter(v => bar.venues![v.id]).map(v => (
+        <div key={v.id} className="pl-3 text-gray-400">
+          {v.name}: {formatQuantity(toSize(bar.venues![v.id]), instrument)}
+        </div>
+      ))}
+      <div className="text-gray-500 pt-1">Click to pin</div>
+    </div>
+  );
+};
+
+export default LevelTooltip;
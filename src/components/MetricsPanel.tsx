@@ -0,0 +1,57 @@
+'use client';
+
+import React from 'react';
+import { BookMetrics, MetricSettings } from '@/lib/orderbook/metrics';
+import Sparkline from '@/components/Sparkline';
+import { InstrumentInfo, stepDecimals } from '@/lib/venues';
+
+type MetricKey = Exclude<keyof BookMetrics, 'timestamp'>;
+
+const format = (value: number, digits: number) => (Number.isNaN(value) ? '-' : value.toFixed(digits));
+
+// Live value of each microstructure metric over a rolling chart of its history
+const MetricsPanel: React.FC<{
+  live: BookMetrics;
+  series: BookMetrics[];
+  settings: MetricSettings;
+  instrument: InstrumentInfo;
+}> = ({ live, series, settings, instrument }) => {
+  // Mid and microprice fall between ticks, so they get one digit more than a price
+  const priceDigits = stepDecimals(instrument.tickSize) + 1;
+
+  const rows: { key: MetricKey; label: string; value: string; color: string; fit?: boolean }[] = [
+    { key: 'mid', label: 'Mid', value: format(live.mid, priceDigits), color: '#facc15', fit: true },
+    { key: 'microprice', label: 'Microprice', value: format(live.microprice, priceDigits), color: '#f472b6', fit: true },
+    { key: 'spreadBps', label: 'Spread', value: `${format(live.spreadBps, 2)} bp`, color: '#fbbf24' },
+    {
+      key: 'imbalance',
+      label: `Imbalance (top ${settings.topN})`,
+      value: format(live.imbalance, 3),
+      color: live.imbalance >= 0 ? '#4ade80' : '#f87171'
+    },
+    { key: 'ofi', label: 'Order-flow imbalance', value: format(live.ofi, 3), color: '#60a5fa' },
+    { key: 'depthBids', label: `Bid depth ±${settings.depthBps} bp`, value: format(live.depthBids, 3), color: '#4ade80' },
+    { key: 'depthAsks', label: `Ask depth ±${settings.depthBps} bp`, value: format(live.depthAsks, 3), color: '#f87171' }
+  ];
+
+  return (
+    <div className="space-y-2 text-sm">
+      {rows.map(row => (
+        <div key={row.key}>
+          <div className="flex justify-between">
+            <span>{row.label}:</span>
+            <span className="font-mono" style={{ color: row.color }}>{row.value}</span>
+          </div>
+          <Sparkline
+            points={series.map(metrics => ({ timestamp: metrics.timestamp, value: metrics[row.key] }))}
+            color={row.color}
+            height={24}
+            fit={row.fit}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default MetricsPanel;
@@ -0,0 +1,131 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Download, Link, Save, Trash2, Upload } from 'lucide-react';
+import { SavedLayout, exportLayouts, parseLayouts } from '@/lib/viewState';
+
+// Named views: save the current one, load or delete saved ones, move them between machines as
+// JSON, and copy a link that opens exactly the current view
+const SavedLayouts: React.FC<{
+  layouts: SavedLayout[];
+  onSave: (name: string) => void;
+  onLoad: (layout: SavedLayout) => void;
+  onDelete: (name: string) => void;
+  onImport: (layouts: SavedLayout[]) => void;
+  shareLink: () => string;
+}> = ({ layouts, onSave, onLoad, onDelete, onImport, shareLink }) => {
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const save = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onSave(trimmed);
+    setName('');
+    setMessage({ text: `Saved "${trimmed}"`, error: false });
+  };
+
+  const download = () => {
+    const blob = new Blob([JSON.stringify(exportLayouts(layouts), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'orderbook-layouts.json';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const upload = async (file: File) => {
+    try {
+      const imported = parseLayouts(JSON.parse(await file.text()));
+      onImport(imported);
+      setMessage({ text: `Imported ${imported.length} layout${imported.length === 1 ? '' : 's'}`, error: false });
+    } catch (reason) {
+      setMessage({ text: `Import failed: ${reason instanceof Error ? reason.message : reason}`, error: true });
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(shareLink());
+      setMessage({ text: 'Link copied', error: false });
+    } catch {
+      setMessage({ text: 'Clipboard unavailable; copy the address bar instead', error: true });
+    }
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex space-x-1">
+        <input
+          type="text"
+          value={name}
+          placeholder="Layout name"
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && save()}
+          className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded px-2 py-1"
+        />
+        <button
+          onClick={save}
+          disabled={!name.trim()}
+          className="flex items-center space-x-1 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 px-3 py-1 rounded transition-colors"
+        >
+          <Save size={14} />
+          <span>Save</span>
+        </button>
+      </div>
+
+      {layouts.length > 0 && (
+        <div className="space-y-px">
+          {layouts.map(layout => (
+            <div key={layout.name} className="flex items-center justify-between px-1 rounded hover:bg-gray-700">
+              <button onClick={() => onLoad(layout)} className="flex-1 text-left truncate py-1" title={`Saved ${new Date(layout.savedAt).toLocaleString()}`}>
+                {layout.name}
+                <span className="text-xs text-gray-400"> · {layout.state.symbol}</span>
+              </button>
+              <button onClick={() => onDelete(layout.name)} className="text-gray-400 hover:text-red-400 p-1" title="Delete">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex space-x-1">
+        <button
+          onClick={copyLink}
+          className="flex-1 flex items-center justify-center space-x-1 bg-gray-600 hover:bg-gray-700 px-2 py-1 rounded transition-colors"
+        >
+          <Link size={14} />
+          <span>Copy link</span>
+        </button>
+        <button
+          onClick={download}
+          disabled={layouts.length === 0}
+          className="flex-1 flex items-center justify-center space-x-1 bg-gray-600 hover:bg-gray-700 disabled:opacity-50 px-2 py-1 rounded transition-colors"
+        >
+          <Download size={14} />
+          <span>Export</span>
+        </button>
+        <label className="flex-1 flex items-center justify-center space-x-1 bg-gray-600 hover:bg-gray-700 px-2 py-1 rounded transition-colors cursor-pointer">
+          <Upload size={14} />
+          <span>Import</span>
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) upload(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+
+      {message && <div className={`text-xs ${message.error ? 'text-red-400' : 'text-gray-400'}`}>{message.text}</div>}
+    </div>
+  );
+};
+
+export default SavedLayouts;
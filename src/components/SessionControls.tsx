@@ -0,0 +1,135 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Circle, Download, Pause, Play, Square, Upload } from 'lucide-react';
+import { recordingBlob } from '@/lib/orderbook/recording';
+import { SessionRecorder, SessionReplay } from '@/hooks/useOrderbookWebSocket';
+
+const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 5, 10];
+
+const formatClock = (time: number) => new Date(time).toLocaleTimeString([], { hour12: false });
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Records the live session to a file, or loads one and replays it with transport controls
+const SessionControls: React.FC<{
+  recorder: SessionRecorder;
+  replay: SessionReplay;
+}> = ({ recorder, replay }) => {
+  const [gzip, setGzip] = useState(true);
+  const { status } = replay;
+
+  const save = async () => {
+    if (!recorder.lastRecording) return;
+    const { header, text } = recorder.lastRecording;
+    const blob = await recordingBlob(text, gzip);
+    const stamp = new Date(header.startedAt).toISOString().replace(/[:.]/g, '-');
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${header.symbol}-${stamp}.ndjson${gzip ? '.gz' : ''}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      {!status && (
+        <>
+          <button
+            onClick={recorder.recording ? recorder.stop : recorder.start}
+            className={`w-full flex items-center justify-center space-x-2 px-4 py-2 rounded transition-colors ${
+              recorder.recording ? 'bg-red-600 hover:bg-red-700' : 'bg-gray-600 hover:bg-gray-700'
+            }`}
+          >
+            {recorder.recording ? <Square size={16} /> : <Circle size={16} />}
+            <span>{recorder.recording ? 'Stop Recording' : 'Record Session'}</span>
+          </button>
+
+          {recorder.lastRecording && (
+            <div className="flex items-center justify-between">
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input type="checkbox" checked={gzip} onChange={(e) => setGzip(e.target.checked)} className="rounded" />
+                <span>gzip</span>
+              </label>
+              <button onClick={save} className="flex items-center space-x-1 bg-blue-600 hover:bg-blue-700 px-3 py-1 rounded transition-colors">
+                <Download size={14} />
+                <span>
+                  Save {formatDuration(recorder.lastRecording.header.endedAt - recorder.lastRecording.header.startedAt)}
+                </span>
+              </button>
+            </div>
+          )}
+        </>
+      )}
+
+      <label className="w-full flex items-center justify-center space-x-2 bg-gray-600 hover:bg-gray-700 px-4 py-2 rounded transition-colors cursor-pointer">
+        <Upload size={16} />
+        <span>{status ? 'Load Another Recording' : 'Replay Recording'}</span>
+        <input
+          type="file"
+          accept=".ndjson,.gz,.jsonl"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) replay.load(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+      {replay.error && <div className="text-red-400 text-xs">{replay.error}</div>}
+
+      {status && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-xs text-gray-300">
+            <span>{status.symbol} · {status.venueIds.join(', ')}</span>
+            <span className="font-mono">{formatClock(status.position)}</span>
+          </div>
+          <input
+            type="range"
+            min={status.start}
+            max={status.end}
+            step={100}
+            value={status.position}
+            onChange={(e) => replay.seek(parseInt(e.target.value))}
+            className="w-full"
+          />
+          <div className="flex justify-between text-xs text-gray-400 font-mono">
+            <span>{formatDuration(status.position - status.start)}</span>
+            <span>{formatDuration(status.end - status.start)}</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => replay.setPlaying(!status.playing)}
+              className="flex-1 flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 px-3 py-1 rounded transition-colors"
+            >
+              {status.playing ? <Pause size={14} /> : <Play size={14} />}
+              <span>{status.playing ? 'Pause' : 'Play'}</span>
+            </button>
+            <select
+              value={status.speed}
+              onChange={(e) => replay.setSpeed(parseFloat(e.target.value))}
+              className="bg-gray-900 border border-gray-600 rounded px-2 py-1"
+            >
+              {REPLAY_SPEEDS.map(speed => (
+                <option key={speed} value={speed}>{speed}×</option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={replay.exit}
+            className="w-full bg-green-700 hover:bg-green-800 px-4 py-1 rounded transition-colors"
+          >
+            Back to Live
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionControls;
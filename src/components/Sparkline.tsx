@@ -0,0 +1,49 @@
+'use client';
+
+import React, { useMemo } from 'react';
+
+// Minimal line chart of a series over time. By default the scale runs from zero (or the most
+// negative value) to the maximum; `fit` scales to the data's own range instead, for series like
+// prices that never get near zero. NaN points are skipped.
+const Sparkline: React.FC<{
+  points: { timestamp: number; value: number }[];
+  color: string;
+  width?: number;
+  height?: number;
+  fit?: boolean;
+}> = ({ points, color, width = 240, height = 48, fit = false }) => {
+  const chart = useMemo(() => {
+    const valid = points.filter(point => !Number.isNaN(point.value));
+    if (valid.length < 2) return null;
+
+    const values = valid.map(point => point.value);
+    const min = fit ? Math.min(...values) : Math.min(0, ...values);
+    const max = Math.max(...values);
+    const range = max - min || 1e-12;
+    const start = valid[0].timestamp;
+    const span = valid[valid.length - 1].timestamp - start || 1;
+    const y = (value: number) => height - ((value - min) / range) * (height - 2) - 1;
+
+    return {
+      path: valid
+        .map((point, index) => {
+          const x = ((point.timestamp - start) / span) * width;
+          return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y(point.value).toFixed(1)}`;
+        })
+        .join(' '),
+      // Signed series get a zero line
+      zeroY: min < 0 && max > 0 ? y(0) : null
+    };
+  }, [points, width, height, fit]);
+
+  if (!chart) return <div className="text-xs text-gray-400">Waiting for more samples…</div>;
+
+  return (
+    <svg width={width} height={height} className="block">
+      {chart.zeroY !== null && <line x1={0} x2={width} y1={chart.zeroY} y2={chart.zeroY} stroke="#4b5563" strokeDasharray="2 2" />}
+      <path d={chart.path} fill="none" stroke={color} strokeWidth={1.5} />
+    </svg>
+  );
+};
+
+export default Sparkline;
@@ -0,0 +1,161 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronDown, Search, Star } from 'lucide-react';
+import { FALLBACK_INSTRUMENTS, InstrumentInfo, stepDecimals } from '@/lib/venues';
+
+const FAVORITES_KEY = 'symbol-favorites';
+const DEFAULT_FAVORITES = FALLBACK_INSTRUMENTS.map(instrument => instrument.symbol);
+
+// A full listing runs to thousands of symbols; the search narrows it down
+const MAX_RESULTS = 50;
+
+const readFavorites = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(FAVORITES_KEY) ?? 'null');
+    return Array.isArray(stored) ? stored : DEFAULT_FAVORITES;
+  } catch {
+    return DEFAULT_FAVORITES;
+  }
+};
+
+// Exact and prefix matches first, then anything containing the query; "eth/btc" matches ETHBTC
+const matchRank = (instrument: InstrumentInfo, query: string) => {
+  if (!query) return 0;
+  const pair = `${instrument.baseAsset}/${instrument.quoteAsset}`;
+  if (instrument.symbol === query.replace('/', '') || pair === query) return 0;
+  if (instrument.baseAsset.startsWith(query) || instrument.symbol.startsWith(query)) return 1;
+  if (instrument.symbol.includes(query.replace('/', '')) || pair.includes(query)) return 2;
+  return -1;
+};
+
+// Searchable symbol list with favorites pinned to the top
+const SymbolPicker: React.FC<{
+  instruments: InstrumentInfo[];
+  value: string;
+  onChange: (symbol: string) => void;
+  loading?: boolean;
+  // Why the list is a fallback, if it is
+  error?: string | null;
+  // Side the dropdown lines up with
+  align?: 'left' | 'right';
+}> = ({ instruments, value, onChange, loading = false, error = null, align = 'right' }) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [favorites, setFavorites] = useState<string[]>(DEFAULT_FAVORITES);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Read after mount, since the server render has no storage to read from
+  useEffect(() => {
+    setFavorites(readFavorites());
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    const closeOnOutsideClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', closeOnOutsideClick);
+    return () => document.removeEventListener('mousedown', closeOnOutsideClick);
+  }, [open]);
+
+  const toggleFavorite = (symbol: string) => {
+    const next = favorites.includes(symbol) ? favorites.filter(favorite => favorite !== symbol) : [...favorites, symbol];
+    setFavorites(next);
+    try {
+      localStorage.setItem(FAVORITES_KEY, JSON.stringify(next));
+    } catch {
+      // Favorites just won't outlive the session
+    }
+  };
+
+  const results = useMemo(() => {
+    const normalized = query.trim().toUpperCase();
+    return instruments
+      .map(instrument => ({ instrument, rank: matchRank(instrument, normalized) }))
+      .filter(({ rank }) => rank >= 0)
+      .sort((a, b) =>
+        Number(favorites.includes(b.instrument.symbol)) - Number(favorites.includes(a.instrument.symbol)) ||
+        a.rank - b.rank ||
+        a.instrument.symbol.localeCompare(b.instrument.symbol)
+      )
+      .slice(0, MAX_RESULTS)
+      .map(({ instrument }) => instrument);
+  }, [instruments, query, favorites]);
+
+  const current = instruments.find(instrument => instrument.symbol === value);
+
+  const select = (symbol: string) => {
+    onChange(symbol);
+    setOpen(false);
+    setQuery('');
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center space-x-2 bg-gray-800 border border-gray-600 rounded px-3 py-1"
+      >
+        <span>{current ? `${current.baseAsset}/${current.quoteAsset}` : value}</span>
+        <ChevronDown size={14} />
+      </button>
+
+      {open && (
+        <div className={`absolute ${align === 'right' ? 'right-0' : 'left-0'} mt-1 w-72 bg-gray-800 border border-gray-600 rounded shadow-lg z-20 text-sm`}>
+          <div className="flex items-center space-x-2 p-2 border-b border-gray-700">
+            <Search size={14} className="text-gray-400" />
+            <input
+              autoFocus
+              type="text"
+              value={query}
+              placeholder="Search symbols"
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && results[0]) select(results[0].symbol);
+                if (e.key === 'Escape') setOpen(false);
+              }}
+              className="flex-1 bg-transparent outline-none"
+            />
+            {loading && <span className="text-xs text-gray-400">loading…</span>}
+          </div>
+          {error && <div className="px-2 py-1 border-b border-gray-700 text-xs text-yellow-400">{error}</div>}
+          <div className="max-h-80 overflow-y-auto">
+            {results.map(instrument => {
+              const favorite = favorites.includes(instrument.symbol);
+              return (
+                <div
+                  key={instrument.symbol}
+                  className={`flex items-center justify-between px-2 py-1 cursor-pointer hover:bg-gray-700 ${
+                    instrument.symbol === value ? 'bg-gray-700' : ''
+                  }`}
+                  onClick={() => select(instrument.symbol)}
+                >
+                  <span className="flex items-center space-x-2">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        toggleFavorite(instrument.symbol);
+                      }}
+                      className={favorite ? 'text-yellow-400' : 'text-gray-500 hover:text-gray-300'}
+                    >
+                      <Star size={14} fill={favorite ? 'currentColor' : 'none'} />
+                    </button>
+                    <span>
+                      {instrument.baseAsset}
+                      <span className="text-gray-400">/{instrument.quoteAsset}</span>
+                    </span>
+                  </span>
+                  <span className="text-xs text-gray-400 font-mono">tick {instrument.tickSize.toFixed(stepDecimals(instrument.tickSize))}</span>
+                </div>
+              );
+            })}
+            {results.length === 0 && <div className="px-2 py-2 text-gray-400">No matching symbols</div>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SymbolPicker;
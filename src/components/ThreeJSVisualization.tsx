@@ -0,0 +1,693 @@
+'use client';
+
+import React, { useRef, useEffect, useState } from 'react';
+import type * as THREE from 'three';
+import { HistorySettings, OrderbookLevel, Trade, Venue, VenueOrderbook } from '@/types/orderbook';
+import { VenueBreakdown } from '@/lib/orderbook/aggregate';
+import type { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { BarData, InstancedBars, createInstancedBars, disposeObject } from '@/lib/visualization/instancedBars';
+import { AxisTicks, createAxisTicks, createTextSprite } from '@/lib/visualization/labels';
+import { formatTickTime, niceTimeStep, timeTicks } from '@/lib/visualization/timeAxis';
+import { buildDepthGrid } from '@/lib/visualization/depthGrid';
+import { DepthSurface, createDepthSurface } from '@/lib/visualization/surface';
+import { LiquidityHeatmap, createLiquidityHeatmap } from '@/lib/visualization/heatmap';
+import { DepthWallSlice, DepthWalls, createDepthWalls } from '@/lib/visualization/depthWalls';
+import { PriceAxisSettings, createPriceScale } from '@/lib/visualization/priceAxis';
+import { depthCurve, midPrice } from '@/lib/orderbook/depth';
+import { peakLevelQuantity } from '@/lib/orderbook/normalize';
+import { CAMERA_PRESETS, CameraPresetId, CameraTransition, createCameraTransition, getCameraPreset } from '@/lib/visualization/cameraPresets';
+import { PressureZoneBox, PressureZones, createPressureZones } from '@/lib/visualization/pressureZones';
+import { LiquidityWall } from '@/lib/orderbook/liquidityWalls';
+import { BookMetrics } from '@/lib/orderbook/metrics';
+import { ImbalanceStrip, createImbalanceStrip } from '@/lib/visualization/imbalanceStrip';
+import { FlowOverlay, HintRail, TradeMarker, createFlowOverlay } from '@/lib/visualization/flowOverlay';
+import { FlowHint } from '@/lib/orderbook/tradeFlow';
+import { sceneTheme } from '@/lib/visualization/sceneTheme';
+import { CameraPose, CameraSync, CameraSyncMember } from '@/lib/visualization/cameraSync';
+import { InstrumentInfo } from '@/lib/venues';
+import LevelTooltip from '@/components/LevelTooltip';
+
+// Discrete boxes per (price, time) sample, a continuous height field, or a flat liquidity heatmap
+export type RenderMode = 'bars' | 'surface' | 'heatmap';
+
+// A preset, with its position and target replaced by an exact pose when there is one
+const viewTarget = ({ preset, pose }: { preset: CameraPresetId; pose?: CameraPose }) => ({ ...getCameraPreset(preset), ...pose });
+
+// Three.js Visualization Component
+const ThreeJSVisualization: React.FC<{
+  layers: VenueOrderbook[];
+  // Every enabled venue, for naming the contributors to merged levels
+  venues: Venue[];
+  history: HistorySettings;
+  renderMode: RenderMode;
+  // Bars mode only: cumulative depth walls instead of per-level bars
+  cumulative: boolean;
+  priceAxis: PriceAxisSettings;
+  // Tick size sets the price labels' precision and the 'ticks' range; the quote asset titles the axis
+  instrument: InstrumentInfo;
+  isRotating: boolean;
+  showPressureZones: boolean;
+  // Tracked liquidity walls of every layer, drawn when showPressureZones is on
+  walls: LiquidityWall[];
+  // Top-of-book imbalance per sample, drawn as a strip along the time axis; empty hides it
+  imbalance: BookMetrics[];
+  // Trades and spoofing/iceberg hints of the visible venues; null hides the overlay
+  flow: { trades: Trade[]; hints: FlowHint[] } | null;
+  darkMode: boolean;
+  // Flies the camera to a preset, or to an exact pose, whenever the revision changes. The view
+  // current at mount is where the camera starts.
+  cameraView: { preset: CameraPresetId; revision: number; pose?: CameraPose };
+  // Clicking a bar pins its level; clicking empty space clears the pin
+  onPinLevel?: (bar: BarData | null) => void;
+  // Scenes joined to the same sync share one camera
+  cameraSync?: CameraSync | null;
+  // Every camera move, for keeping the view somewhere it can be restored from
+  onCameraChange?: (pose: CameraPose) => void;
+  // Per-level bars: quantity drawn at full height, so scenes side by side share a scale; default fits the data
+  quantityScale?: number;
+  // Quantities in the layers are notional (price x quantity) rather than base asset
+  notional?: boolean;
+}> = ({
+  layers,
+  venues,
+  history,
+  renderMode,
+  cumulative,
+  priceAxis,
+  instrument,
+  isRotating,
+  showPressureZones,
+  walls,
+  imbalance,
+  flow,
+  darkMode,
+  cameraView,
+  onPinLevel,
+  cameraSync = null,
+  onCameraChange,
+  quantityScale,
+  notional = false
+}) => {
+  const mountRef = useRef<HTMLDivElement>(null);
+  const sceneRef = useRef<THREE.Scene | null>(null);
+  const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
+  const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
+  const frameRef = useRef<number>(0);
+  const barsRef = useRef<InstancedBars | null>(null);
+  const timeTicksRef = useRef<AxisTicks | null>(null);
+  const priceTicksRef = useRef<AxisTicks | null>(null);
+  const priceTitleRef = useRef<AxisTicks | null>(null);
+  const surfaceRef = useRef<DepthSurface | null>(null);
+  const heatmapRef = useRef<LiquidityHeatmap | null>(null);
+  const wallsRef = useRef<DepthWalls | null>(null);
+  const pressureZonesRef = useRef<PressureZones | null>(null);
+  const imbalanceStripRef = useRef<ImbalanceStrip | null>(null);
+  const flowOverlayRef = useRef<FlowOverlay | null>(null);
+  // Re-runs picking at the last pointer position, e.g. after the bars were rebuilt
+  const pickRef = useRef<(() => void) | null>(null);
+  const transitionRef = useRef<CameraTransition | null>(null);
+  const themeRef = useRef<((darkMode: boolean) => void) | null>(null);
+  const controlsRef = useRef<OrbitControls | null>(null);
+  // Read once when the scene is built; later changes go through the effects below
+  const darkModeRef = useRef(darkMode);
+  darkModeRef.current = darkMode;
+  const isRotatingRef = useRef(isRotating);
+  isRotatingRef.current = isRotating;
+  const onPinLevelRef = useRef(onPinLevel);
+  onPinLevelRef.current = onPinLevel;
+  const onCameraChangeRef = useRef(onCameraChange);
+  onCameraChangeRef.current = onCameraChange;
+  const cameraViewRef = useRef(cameraView);
+  cameraViewRef.current = cameraView;
+  const syncMemberRef = useRef<CameraSyncMember | null>(null);
+  // Set while following another scene, so the move isn't echoed back to it
+  const followingRef = useRef(false);
+  const [hovered, setHovered] = useState<{ bar: BarData; x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    if (!mountRef.current || typeof window === 'undefined') return;
+
+    const currentMount = mountRef.current;
+
+    // Dynamically import Three.js to avoid SSR issues
+    const initThreeJS = async () => {
+      const THREE = await import('three');
+      const { OrbitControls } = await import('three/examples/jsm/controls/OrbitControls.js');
+      // Unmounted while the modules were loading
+      if (cancelled) return;
+      
+      // Scene setup
+      const scene = new THREE.Scene();
+      scene.background = new THREE.Color();
+      
+      // Camera setup
+      const camera = new THREE.PerspectiveCamera(75, currentMount.clientWidth / currentMount.clientHeight, 0.1, 1000);
+      const initialView = viewTarget(cameraViewRef.current);
+      camera.position.set(...initialView.position);
+      
+      // Renderer setup
+      const renderer = new THREE.WebGLRenderer({ antialias: true });
+      renderer.setSize(currentMount.clientWidth, currentMount.clientHeight);
+      renderer.shadowMap.enabled = true;
+      renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+      currentMount.appendChild(renderer.domElement);
+      
+      // Lighting
+      const ambientLight = new THREE.AmbientLight(0xffffff, 0.4);
+      scene.add(ambientLight);
+      
+      const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
+      directionalLight.position.set(50, 50, 50);
+      directionalLight.castShadow = true;
+      directionalLight.shadow.mapSize.width = 2048;
+      directionalLight.shadow.mapSize.height = 2048;
+      scene.add(directionalLight);
+      
+      const pointLight = new THREE.PointLight(0x4fc3f7, 0.6);
+      pointLight.position.set(-30, 20, -30);
+      scene.add(pointLight);
+      
+      // Create coordinate system
+      const axesHelper = new THREE.AxesHelper(15);
+      scene.add(axesHelper);
+      
+      // Grid colors are baked into its geometry, so a theme change swaps the grid
+      let gridHelper: THREE.GridHelper | null = null;
+      themeRef.current = (dark: boolean) => {
+        const theme = sceneTheme(dark);
+        (scene.background as THREE.Color).set(theme.background);
+        if (gridHelper) {
+          scene.remove(gridHelper);
+          disposeObject(gridHelper);
+        }
+        gridHelper = new THREE.GridHelper(50, 50, theme.gridCenter, theme.grid);
+        scene.add(gridHelper);
+      };
+      themeRef.current(darkModeRef.current);
+      
+      // Add axis labels; the price title names the quote asset once data arrives
+      priceTitleRef.current = createAxisTicks(THREE, scene, '#ff6b6b', 1);
+      priceTitleRef.current.update([{ key: 'Price', text: 'Price', position: [20, -2, 0] }]);
+      
+      const yLabel = createTextSprite(THREE, 'Quantity', '#4ecdc4');
+      yLabel.position.set(0, 20, 0);
+      scene.add(yLabel);
+      
+      const zLabel = createTextSprite(THREE, 'Time', '#45b7d1');
+      zLabel.position.set(0, -2, 20);
+      scene.add(zLabel);
+      
+      // Store references
+      sceneRef.current = scene;
+      rendererRef.current = renderer;
+      cameraRef.current = camera;
+      barsRef.current = createInstancedBars(THREE, scene);
+      timeTicksRef.current = createAxisTicks(THREE, scene, '#45b7d1');
+      priceTicksRef.current = createAxisTicks(THREE, scene, '#ff6b6b');
+      surfaceRef.current = createDepthSurface(THREE, scene);
+      heatmapRef.current = createLiquidityHeatmap(THREE, scene);
+      wallsRef.current = createDepthWalls(THREE, scene);
+      pressureZonesRef.current = createPressureZones(THREE, scene);
+      imbalanceStripRef.current = createImbalanceStrip(THREE, scene);
+      flowOverlayRef.current = createFlowOverlay(THREE, scene);
+
+      // Picking: one raycast against the bars per animation frame at most
+      const raycaster = new THREE.Raycaster();
+      const pointer = new THREE.Vector2();
+      let pointerInside = false;
+      let pointerX = 0;
+      let pointerY = 0;
+      let pickScheduled = false;
+
+      const pickBar = () => {
+        const bars = barsRef.current;
+        if (!bars || !pointerInside || bars.mesh.count === 0) return null;
+        pointer.set((pointerX / currentMount.clientWidth) * 2 - 1, -(pointerY / currentMount.clientHeight) * 2 + 1);
+        raycaster.setFromCamera(pointer, camera);
+        const instanceId = raycaster.intersectObject(bars.mesh, false)[0]?.instanceId;
+        return instanceId === undefined ? null : instanceId;
+      };
+
+      const pick = () => {
+        const instanceId = pickBar();
+        barsRef.current?.highlight(instanceId);
+        const bar = instanceId === null ? undefined : barsRef.current?.dataAt(instanceId);
+        setHovered(bar ? { bar, x: pointerX, y: pointerY } : null);
+      };
+      pickRef.current = pick;
+
+      const schedulePick = () => {
+        if (pickScheduled) return;
+        pickScheduled = true;
+        requestAnimationFrame(() => {
+          pickScheduled = false;
+          pick();
+        });
+      };
+      
+      // Orbit, pan and zoom with damping; one-finger rotate and two-finger pan/zoom on touch.
+      // Arrow keys pan once the canvas has focus.
+      const controls = new OrbitControls(camera, renderer.domElement);
+      controls.target.set(...initialView.target);
+      controls.enableDamping = true;
+      controls.dampingFactor = 0.08;
+      controls.screenSpacePanning = true;
+      controls.minDistance = 5;
+      controls.maxDistance = 150;
+      // Never orbit below the grid
+      controls.maxPolarAngle = Math.PI / 2;
+      controls.autoRotate = isRotatingRef.current;
+      controls.autoRotateSpeed = 1;
+      renderer.domElement.tabIndex = 0;
+      renderer.domElement.style.outline = 'none';
+      controls.listenToKeyEvents(renderer.domElement);
+      controls.update();
+      controlsRef.current = controls;
+      controls.addEventListener('change', () => {
+        const pose: CameraPose = {
+          position: [camera.position.x, camera.position.y, camera.position.z],
+          target: [controls.target.x, controls.target.y, controls.target.z]
+        };
+        onCameraChangeRef.current?.(pose);
+        if (!followingRef.current) syncMemberRef.current?.publish(pose);
+      });
+
+      const transition = createCameraTransition(THREE, camera, controls.target);
+      transitionRef.current = transition;
+      controls.addEventListener('start', transition.cancel);
+
+      // Dollies towards or away from the orbit target within the controls' limits
+      const zoomBy = (factor: number) => {
+        const offset = camera.position.clone().sub(controls.target);
+        const distance = Math.max(controls.minDistance, Math.min(controls.maxDistance, offset.length() * factor));
+        camera.position.copy(controls.target).add(offset.setLength(distance));
+      };
+
+      // 1-4 jump to presets, R resets, +/- zoom
+      const onKeyDown = (event: KeyboardEvent) => {
+        const preset = CAMERA_PRESETS.find(candidate => candidate.key === event.key);
+        if (preset) transition.start(preset);
+        else if (event.key === 'r' || event.key === 'R') transition.start(getCameraPreset('default'));
+        else if (event.key === '+' || event.key === '=') zoomBy(0.9);
+        else if (event.key === '-' || event.key === '_') zoomBy(1.1);
+      };
+
+      // Clicks that turn into a drag orbit the camera rather than pinning
+      let dragDistance = 0;
+      
+      const onMouseDown = () => {
+        dragDistance = 0;
+      };
+
+      // A click that did not turn into a drag pins whatever is under the pointer
+      const onClick = () => {
+        if (dragDistance > 4) return;
+        const instanceId = pickBar();
+        onPinLevelRef.current?.(instanceId === null ? null : barsRef.current?.dataAt(instanceId) ?? null);
+      };
+
+      const onPointerLeave = () => {
+        pointerInside = false;
+        barsRef.current?.highlight(null);
+        setHovered(null);
+      };
+      
+      const onMouseMove = (event: MouseEvent) => {
+        const bounds = renderer.domElement.getBoundingClientRect();
+        pointerX = event.clientX - bounds.left;
+        pointerY = event.clientY - bounds.top;
+        pointerInside = true;
+        schedulePick();
+
+        if (event.buttons !== 0) dragDistance += Math.abs(event.movementX) + Math.abs(event.movementY);
+      };
+      
+      renderer.domElement.addEventListener('mousedown', onMouseDown);
+      renderer.domElement.addEventListener('mousemove', onMouseMove);
+      renderer.domElement.addEventListener('click', onClick);
+      renderer.domElement.addEventListener('mouseleave', onPointerLeave);
+      renderer.domElement.addEventListener('keydown', onKeyDown);
+      
+      // Animation loop
+      const animate = () => {
+        frameRef.current = requestAnimationFrame(animate);
+        transition.step(performance.now());
+        controls.update();
+        renderer.render(scene, camera);
+      };
+      
+      animate();
+      
+      // Handle resize; the container also changes size without the window, when panes are rearranged
+      const handleResize = () => {
+        if (!currentMount || currentMount.clientWidth === 0 || currentMount.clientHeight === 0) return;
+        camera.aspect = currentMount.clientWidth / currentMount.clientHeight;
+        camera.updateProjectionMatrix();
+        renderer.setSize(currentMount.clientWidth, currentMount.clientHeight);
+      };
+      
+      const resizeObserver = new ResizeObserver(handleResize);
+      resizeObserver.observe(currentMount);
+      
+      teardown = () => {
+        cancelAnimationFrame(frameRef.current);
+        resizeObserver.disconnect();
+        renderer.domElement.removeEventListener('mousedown', onMouseDown);
+        renderer.domElement.removeEventListener('mousemove', onMouseMove);
+        renderer.domElement.removeEventListener('click', onClick);
+        renderer.domElement.removeEventListener('mouseleave', onPointerLeave);
+        renderer.domElement.removeEventListener('keydown', onKeyDown);
+        controls.dispose();
+
+        pickRef.current = null;
+        transitionRef.current = null;
+        themeRef.current = null;
+        controlsRef.current = null;
+        setHovered(null);
+        barsRef.current?.dispose();
+        barsRef.current = null;
+        timeTicksRef.current?.dispose();
+        timeTicksRef.current = null;
+        priceTicksRef.current?.dispose();
+        priceTicksRef.current = null;
+        priceTitleRef.current?.dispose();
+        priceTitleRef.current = null;
+        surfaceRef.current?.dispose();
+        surfaceRef.current = null;
+        heatmapRef.current?.dispose();
+        heatmapRef.current = null;
+        wallsRef.current?.dispose();
+        wallsRef.current = null;
+        pressureZonesRef.current?.dispose();
+        pressureZonesRef.current = null;
+        imbalanceStripRef.current?.dispose();
+        imbalanceStripRef.current = null;
+        flowOverlayRef.current?.dispose();
+        flowOverlayRef.current = null;
+        // Whatever is left: lights, helpers and axis labels
+        disposeObject(scene);
+        scene.clear();
+        sceneRef.current = null;
+        cameraRef.current = null;
+
+        currentMount.removeChild(renderer.domElement);
+        renderer.dispose();
+        // Browsers cap live WebGL contexts; release this one now rather than at garbage collection
+        renderer.forceContextLoss();
+        rendererRef.current = null;
+      };
+    };
+
+    let cancelled = false;
+    let teardown: (() => void) | null = null;
+    initThreeJS();
+
+    return () => {
+      cancelled = true;
+      teardown?.();
+    };
+  }, []);
+
+  // Theme and rotation apply to the live scene; neither rebuilds it
+  useEffect(() => {
+    themeRef.current?.(darkMode);
+  }, [darkMode]);
+
+  useEffect(() => {
+    if (controlsRef.current) controlsRef.current.autoRotate = isRotating;
+  }, [isRotating]);
+
+  useEffect(() => {
+    transitionRef.current?.start(viewTarget(cameraView));
+  }, [cameraView]);
+
+  useEffect(() => {
+    if (!cameraSync) return;
+    const follow = (pose: CameraPose) => {
+      const camera = cameraRef.current;
+      const controls = controlsRef.current;
+      if (!camera || !controls) return;
+      followingRef.current = true;
+      transitionRef.current?.cancel();
+      camera.position.set(...pose.position);
+      controls.target.set(...pose.target);
+      // Settles the controls on the new pose, so the next frame doesn't report it as a move
+      controls.update();
+      followingRef.current = false;
+    };
+    const member = cameraSync.join(follow);
+    syncMemberRef.current = member;
+    return () => {
+      member.leave();
+      syncMemberRef.current = null;
+    };
+  }, [cameraSync]);
+
+  // Update visualization when orderbook changes
+  useEffect(() => {
+    if (!sceneRef.current || !barsRef.current || typeof window === 'undefined') return;
+    if (!layers.some(layer => layer.historicalData.length > 0)) return;
+
+    const updateVisualization = async () => {
+      const THREE = await import('three');
+      // The scene may have been torn down while the module resolved
+      if (!sceneRef.current || !barsRef.current) return;
+      const bars = barsRef.current;
+      
+      // Price axis (X) is centred on the mid of the current books rather than stretched to their extremes
+      const mids = layers.map(({ orderbook }) => midPrice(orderbook)).filter(mid => !Number.isNaN(mid));
+      if (mids.length === 0) return;
+      const referenceMid = mids.reduce((sum, mid) => sum + mid, 0) / mids.length;
+
+      let fitDistance = 0;
+      layers.forEach(({ orderbook }) => {
+        const anchor = priceAxis.anchor === 'slice' ? midPrice(orderbook) : referenceMid;
+        if (Number.isNaN(anchor)) return;
+        [...orderbook.bids, ...orderbook.asks].forEach(level => {
+          fitDistance = Math.max(fitDistance, Math.abs(level.price - anchor));
+        });
+      });
+
+      const scale = createPriceScale(priceAxis, referenceMid, fitDistance, instrument.tickSize);
+      const inRange = (x: number) => x >= -20 && x <= 20;
+      const clampX = (x: number) => Math.max(-20, Math.min(20, x));
+
+      priceTicksRef.current?.update(scale.ticks().map(tick => ({
+        key: tick.key,
+        text: tick.text,
+        position: [tick.x, 0, 23]
+      })));
+      const priceTitle = instrument.quoteAsset ? `Price (${instrument.quoteAsset})` : 'Price';
+      priceTitleRef.current?.update([{ key: priceTitle, text: priceTitle, position: [20, -2, 0] }]);
+      
+      // Calculate max quantity for scaling
+      const maxQuantity = quantityScale ?? Math.max(1, peakLevelQuantity(layers));
+
+      // Time axis (Z) covers the window in wall-clock time, ending at the latest sample
+      const timeEnd = Math.max(...layers.map(({ historicalData }) => historicalData[historicalData.length - 1]?.timestamp ?? 0));
+      const timeStart = timeEnd - history.windowMs;
+      const timeToZ = (timestamp: number) => ((timestamp - timeStart) / history.windowMs * 40) - 20;
+
+      const timeStep = niceTimeStep(history.windowMs);
+      timeTicksRef.current?.update(timeTicks(timeStart, timeEnd, timeStep).map(tick => ({
+        key: String(tick),
+        text: formatTickTime(tick, timeStep),
+        position: [-23, 0, timeToZ(tick)]
+      })));
+
+      // With several venues each one gets its own lane inside a time slice, drawn in the venue color
+      const multiVenue = layers.length > 1;
+      const sliceDepth = Math.min(0.8, (history.sampleIntervalMs / history.windowMs) * 40 * 0.8);
+      const laneDepth = sliceDepth / layers.length;
+      const color = new THREE.Color();
+
+      const barColor = (venueColor: string, type: 'bid' | 'ask', quantity: number) => {
+        const lightness = (quantity / maxQuantity) * 0.3;
+        if (!multiVenue) return color.setHSL(type === 'bid' ? 0.33 : 0, 0.8, 0.5 + lightness);
+        return color.set(venueColor).offsetHSL(0, 0, (type === 'bid' ? 0 : -0.2) + lightness);
+      };
+
+      bars.begin();
+
+      // Continuous modes resample every venue onto one price x time grid
+      if (renderMode !== 'bars') {
+        const slices = Math.ceil(history.windowMs / history.sampleIntervalMs);
+        const grid = buildDepthGrid(
+          layers.map(layer => layer.historicalData),
+          { toUnit: scale.toUnit, timeStart, windowMs: history.windowMs },
+          Math.max(2, Math.min(slices, renderMode === 'surface' ? 200 : 600)),
+          renderMode === 'surface' ? 100 : 240
+        );
+        if (renderMode === 'surface') surfaceRef.current?.update(grid);
+        else heatmapRef.current?.update(grid, mid => scale.toX(mid, mid));
+      }
+      surfaceRef.current?.setVisible(renderMode === 'surface');
+      heatmapRef.current?.setVisible(renderMode === 'heatmap');
+      
+      if (renderMode === 'bars' && !cumulative) layers.forEach(({ venue, historicalData }, layerIndex) => {
+        const laneOffset = (layerIndex - (layers.length - 1) / 2) * laneDepth;
+
+        // Create 3D bars for each time snapshot
+        historicalData.forEach((snapshot) => {
+          if (snapshot.timestamp < timeStart) return;
+          const sliceMid = midPrice(snapshot);
+          const zPosition = timeToZ(snapshot.timestamp) + laneOffset; // Time axis (Z)
+
+          const addBars = (levels: OrderbookLevel[], type: 'bid' | 'ask') => {
+            levels.forEach((level) => {
+              const xPosition = scale.toX(level.price, sliceMid); // Price axis (X)
+              if (!inRange(xPosition)) return;
+              const yHeight = (level.quantity / maxQuantity) * 15; // Quantity axis (Y)
+
+              bars.add(xPosition, zPosition, 0.8, yHeight, laneDepth, barColor(venue.color, type, level.quantity), {
+                type,
+                venue: venue.id,
+                price: level.price,
+                quantity: level.quantity,
+                timestamp: snapshot.timestamp,
+                mid: sliceMid,
+                ...('venues' in level ? { venues: level.venues as VenueBreakdown } : {})
+              });
+            });
+          };
+
+          addBars(snapshot.bids, 'bid'); // green, or venue color
+          addBars(snapshot.asks, 'ask'); // red, or darker venue color
+        });
+      });
+
+      bars.commit();
+      // The bar under a resting pointer has most likely moved
+      pickRef.current?.();
+
+      // Cumulative mode swaps the per-level bars for stepped depth walls in each slice
+      const showWalls = renderMode === 'bars' && cumulative;
+      if (showWalls) {
+        const slices: DepthWallSlice[] = [];
+        let maxCumulative = 0;
+
+        layers.forEach(({ venue, historicalData }, layerIndex) => {
+          const laneOffset = (layerIndex - (layers.length - 1) / 2) * laneDepth;
+          const inWindow = historicalData.filter(snapshot => snapshot.timestamp >= timeStart);
+          // A few hundred walls per venue is plenty to read the shape
+          const stride = Math.ceil(inWindow.length / 300);
+
+          inWindow.forEach((snapshot, index) => {
+            if (index % stride !== 0 && index !== inWindow.length - 1) return;
+            const curve = depthCurve(snapshot);
+            maxCumulative = Math.max(maxCumulative, curve.totals.bids, curve.totals.asks);
+            slices.push({
+              z: timeToZ(snapshot.timestamp) + laneOffset,
+              mid: midPrice(snapshot),
+              bids: snapshot.bids,
+              asks: snapshot.asks,
+              bidColor: barColor(venue.color, 'bid', 0).clone(),
+              askColor: barColor(venue.color, 'ask', 0).clone()
+            });
+          });
+        });
+
+        // Steps beyond the range are squashed onto its edge
+        wallsRef.current?.update(slices, (price, sliceMid) => clampX(scale.toX(price, sliceMid)), maxCumulative || 1, 15);
+      }
+      wallsRef.current?.setVisible(showWalls);
+      
+      // Liquidity walls as volumes over their price range and lifetime, capped at the bar height scale
+      if (showPressureZones) {
+        const boxes: PressureZoneBox[] = [];
+        walls.forEach(wall => {
+          if (wall.endTime < timeStart) return;
+          const x0 = scale.toX(wall.priceLow, wall.mid);
+          const x1 = scale.toX(wall.priceHigh, wall.mid);
+          if ((x0 < -20 && x1 < -20) || (x0 > 20 && x1 > 20)) return;
+          boxes.push({
+            wall,
+            x0: clampX(x0),
+            x1: clampX(x1),
+            z0: timeToZ(Math.max(wall.startTime, timeStart)),
+            // The last sample a wall was seen in still counts towards its lifetime
+            z1: timeToZ(Math.min(wall.endTime + history.sampleIntervalMs, timeEnd)),
+            height: Math.min(15, (wall.peakQuantity / maxQuantity) * 15)
+          });
+        });
+        pressureZonesRef.current?.update(boxes);
+      }
+      pressureZonesRef.current?.setVisible(showPressureZones);
+
+      imbalanceStripRef.current?.update(
+        imbalance
+          .filter(metrics => metrics.timestamp >= timeStart)
+          .map(metrics => ({ z: timeToZ(metrics.timestamp), imbalance: metrics.imbalance })),
+        (history.sampleIntervalMs / history.windowMs) * 40
+      );
+      imbalanceStripRef.current?.setVisible(imbalance.length > 0);
+
+      // Trades and hints sit in the slice they happened in, anchored like the book at that time
+      if (flow) {
+        const samples = layers[0]?.historicalData ?? [];
+        const midAt = (timestamp: number) => {
+          let low = 0;
+          let high = samples.length - 1;
+          while (low < high) {
+            const middle = (low + high + 1) >> 1;
+            if (samples[middle].timestamp <= timestamp) low = middle;
+            else high = middle - 1;
+          }
+          return samples.length > 0 ? midPrice(samples[low]) : undefined;
+        };
+
+        const visibleTrades = flow.trades.filter(trade => trade.timestamp >= timeStart);
+        const maxTrade = visibleTrades.reduce((max, trade) => Math.max(max, trade.quantity), 1e-12);
+        const markers: TradeMarker[] = [];
+        visibleTrades.forEach(trade => {
+          const x = scale.toX(trade.price, midAt(trade.timestamp));
+          if (!inRange(x)) return;
+          markers.push({
+            x,
+            z: timeToZ(trade.timestamp),
+            // Volume-proportional spheres: radius grows with the cube root
+            radius: 0.15 + Math.cbrt(trade.quantity / maxTrade) * 0.6,
+            side: trade.side
+          });
+        });
+
+        const rails: HintRail[] = [];
+        flow.hints.forEach(hint => {
+          if (hint.lastTime < timeStart) return;
+          const x = scale.toX(hint.price, midAt(hint.lastTime));
+          if (!inRange(x)) return;
+          rails.push({
+            hint,
+            x,
+            z0: timeToZ(Math.max(hint.firstTime - history.sampleIntervalMs, timeStart)),
+            z1: timeToZ(hint.lastTime)
+          });
+        });
+
+        flowOverlayRef.current?.update(markers, rails);
+      }
+      flowOverlayRef.current?.setVisible(flow !== null);
+    };
+
+    updateVisualization();
+  }, [layers, walls, imbalance, flow, history, renderMode, cumulative, priceAxis, instrument, showPressureZones, quantityScale]);
+
+  return (
+    <div className="relative w-full h-full">
+      <div ref={mountRef} className="w-full h-full" />
+      {hovered && (
+        <LevelTooltip
+          bar={hovered.bar}
+          venue={layers.find(layer => layer.venue.id === hovered.bar.venue)?.venue}
+          venues={venues}
+          instrument={instrument}
+          notional={notional}
+          x={hovered.x}
+          y={hovered.y}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ThreeJSVisualization;
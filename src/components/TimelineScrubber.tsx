@@ -0,0 +1,73 @@
+'use client';
+
+import React from 'react';
+import { ChevronLeft, ChevronRight, Pause, Radio } from 'lucide-react';
+import { HistoricalData } from '@/types/orderbook';
+import { sampleIndexAt } from '@/lib/orderbook/timeline';
+
+const formatClock = (time: number) => new Date(time).toLocaleTimeString([], { hour12: false });
+
+// Travels back through the buffered samples. A null cursor follows live data; pausing pins
+// the cursor to the latest sample while new samples keep arriving behind it.
+const TimelineScrubber: React.FC<{
+  samples: HistoricalData[];
+  cursor: number | null;
+  onSeek: (time: number | null) => void;
+}> = ({ samples, cursor, onSeek }) => {
+  if (samples.length === 0) return null;
+
+  const last = samples.length - 1;
+  const index = cursor === null ? last : sampleIndexAt(samples, cursor);
+  const latest = samples[last].timestamp;
+  const shown = samples[index].timestamp;
+  const seekIndex = (next: number) => onSeek(samples[Math.min(Math.max(next, 0), last)].timestamp);
+
+  return (
+    <div className="flex items-center space-x-3 text-sm">
+      {cursor === null ? (
+        <button
+          onClick={() => onSeek(latest)}
+          className="flex items-center space-x-1 bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded transition-colors"
+        >
+          <Pause size={14} />
+          <span>Pause</span>
+        </button>
+      ) : (
+        <button
+          onClick={() => onSeek(null)}
+          className="flex items-center space-x-1 bg-green-700 hover:bg-green-800 px-3 py-1 rounded transition-colors"
+        >
+          <Radio size={14} />
+          <span>Jump to Live</span>
+        </button>
+      )}
+
+      <button onClick={() => seekIndex(index - 1)} className="p-1 rounded hover:bg-gray-700" title="Previous sample">
+        <ChevronLeft size={16} />
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={last}
+        value={index}
+        onChange={(e) => seekIndex(parseInt(e.target.value))}
+        className="flex-1"
+      />
+      <button onClick={() => seekIndex(index + 1)} className="p-1 rounded hover:bg-gray-700" title="Next sample">
+        <ChevronRight size={16} />
+      </button>
+
+      <div className="font-mono text-xs w-32 text-right">
+        {cursor === null ? (
+          <span className="text-green-400">LIVE {formatClock(latest)}</span>
+        ) : (
+          <span className="text-amber-400">
+            {formatClock(shown)} <span className="text-gray-400">−{((latest - shown) / 1000).toFixed(1)}s</span>
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TimelineScrubber;
@@ -0,0 +1,77 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { FALLBACK_INSTRUMENTS, InstrumentInfo, VenueEndpoints, getVenueAdapter } from '@/lib/venues';
+
+// Listings change rarely; a day-old copy beats a multi-megabyte request on every load
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface CachedInstruments {
+  fetchedAt: number;
+  instruments: InstrumentInfo[];
+}
+
+const readCache = (key: string): CachedInstruments | null => {
+  try {
+    const cached = JSON.parse(localStorage.getItem(key) ?? 'null') as CachedInstruments | null;
+    return cached && Array.isArray(cached.instruments) ? cached : null;
+  } catch {
+    return null;
+  }
+};
+
+// Symbols and trading rules from the venue's exchange info, cached in localStorage per source.
+// Until they arrive, or if the venue can't be reached, the built-in symbols stand in.
+export const useInstruments = (venueId: string, endpoints: Record<string, VenueEndpoints>) => {
+  const [instruments, setInstruments] = useState<InstrumentInfo[]>(FALLBACK_INSTRUMENTS);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const adapter = getVenueAdapter(venueId);
+    const cacheKey = `instruments:${venueId}:${endpoints[venueId]?.restUrl ?? 'default'}`;
+
+    setError(null);
+    const cached = readCache(cacheKey);
+    if (cached) setInstruments(cached.instruments);
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+      setLoading(false);
+      return;
+    }
+    if (!adapter.fetchInstruments) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    // Metadata is fetched on the main thread, so it takes the same endpoints as the worker's feeds
+    adapter.fetchInstruments(endpoints[venueId])
+      .then(fetched => {
+        if (cancelled) return;
+        setInstruments(fetched);
+        setError(null);
+        try {
+          localStorage.setItem(cacheKey, JSON.stringify({ fetchedAt: Date.now(), instruments: fetched }));
+        } catch {
+          // Storage full or unavailable; the list just won't survive a reload
+        }
+      })
+      .catch(reason => {
+        if (cancelled) return;
+        const detail = reason instanceof Error ? reason.message : reason;
+        setError(`Symbol list unavailable (${detail}), showing ${cached ? 'the saved list' : 'defaults'}`);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [venueId, endpoints]);
+
+  const bySymbol = useMemo(() => new Map(instruments.map(instrument => [instrument.symbol, instrument])), [instruments]);
+
+  return { instruments, bySymbol, loading, error };
+};
@@ -0,0 +1,279 @@
+'use client';
+
+import { useRef, useEffect, useMemo, useState, useCallback } from 'react';
+import { DEFAULT_HISTORY_SETTINGS, HistoricalData, HistorySettings, OrderbookData, Trade } from '@/types/orderbook';
+import { VenueFeedStatus, createVenueFeedStatus } from '@/lib/orderbook/venueFeed';
+import { BookMetrics, DEFAULT_METRIC_SETTINGS, MetricSettings, computeBookMetrics, metricsSeries } from '@/lib/orderbook/metrics';
+import { RecordingHeader, readRecordingFile } from '@/lib/orderbook/recording';
+import { VenueEndpoints } from '@/lib/venues';
+import {
+  ReplayStatus,
+  VenueFrame,
+  WorkerEvent,
+  WorkerRequest,
+  unpackBook,
+  unpackSnapshot,
+  unpackTrades
+} from '@/workers/protocol';
+
+export interface VenueBookState extends VenueFeedStatus {
+  orderbook: OrderbookData;
+  historicalData: HistoricalData[];
+  trades: Trade[];
+}
+
+export interface VenueMetrics {
+  // Current book, with OFI measured against the latest history sample
+  live: BookMetrics;
+  // One entry per history sample
+  series: BookMetrics[];
+}
+
+export interface SessionRecorder {
+  recording: boolean;
+  // Most recent finished recording, kept until the next one replaces it
+  lastRecording: { header: RecordingHeader; text: string } | null;
+  start: () => void;
+  stop: () => void;
+}
+
+export interface SessionReplay {
+  // Null while on live feeds
+  status: ReplayStatus | null;
+  error: string | null;
+  load: (file: Blob) => Promise<void>;
+  setPlaying: (playing: boolean) => void;
+  setSpeed: (speed: number) => void;
+  seek: (time: number) => void;
+  exit: () => void;
+}
+
+const createVenueBookState = (): VenueBookState => ({
+  ...createVenueFeedStatus(),
+  orderbook: { bids: [], asks: [], lastUpdateId: 0 },
+  historicalData: [],
+  trades: []
+});
+
+const NO_ENDPOINT_OVERRIDES: Record<string, VenueEndpoints> = {};
+
+// Busy markets print thousands of trades a minute; beyond this the oldest go first
+const MAX_TRADES = 20_000;
+
+// End of the time window: the latest entry, or the instant the view is held at when that is earlier,
+// so a paused view keeps the window it shows while newer entries pile up behind it
+const windowEnd = (entries: { timestamp: number }[], heldAt: number | null) => {
+  const latest = entries[entries.length - 1]?.timestamp ?? 0;
+  return heldAt === null ? latest : Math.min(latest, heldAt);
+};
+
+// Keeps the samples that fall inside the time window
+const trimToWindow = (historicalData: HistoricalData[], windowMs: number, heldAt: number | null) => {
+  const end = windowEnd(historicalData, heldAt);
+  const firstInWindow = historicalData.findIndex(snapshot => snapshot.timestamp > end - windowMs);
+  return firstInWindow > 0 ? historicalData.slice(firstInWindow) : historicalData;
+};
+
+// Same window as the history, measured over the trades
+const trimTrades = (trades: Trade[], windowMs: number, heldAt: number | null) => {
+  const end = windowEnd(trades, heldAt);
+  const firstInWindow = trades.findIndex(trade => trade.timestamp > end - windowMs);
+  const start = Math.max(firstInWindow > 0 ? firstInWindow : 0, trades.length - MAX_TRADES);
+  return start > 0 ? trades.slice(start) : trades;
+};
+
+const applyFrame = (state: VenueBookState, frame: VenueFrame, windowMs: number, heldAt: number | null): VenueBookState => {
+  const snapshots = frame.history.map(unpackSnapshot);
+  const trades = unpackTrades(frame.trades);
+
+  return {
+    ...state,
+    ...frame.status,
+    orderbook: frame.book ? unpackBook(frame.book) : state.orderbook,
+    historicalData: trimToWindow(frame.historyReset ? snapshots : [...state.historicalData, ...snapshots], windowMs, heldAt),
+    trades: frame.historyReset || trades.length > 0
+      ? trimTrades(frame.historyReset ? trades : [...state.trades, ...trades], windowMs, heldAt)
+      : state.trades
+  };
+};
+
+// Streams live books for a symbol from every requested venue. Connections and book
+// building run in orderbook.worker; this hook only unpacks the frames it posts.
+// While a recording replays, the books follow the recording's symbol and venues instead.
+// A non-null `heldAt` is the instant a paused view shows; history is kept for the window before it.
+export const useOrderbookWebSocket = (
+  symbol: string = 'BTCUSDT',
+  venueIds: string[] = ['binance'],
+  history: HistorySettings = DEFAULT_HISTORY_SETTINGS,
+  metricSettings: MetricSettings = DEFAULT_METRIC_SETTINGS,
+  endpoints: Record<string, VenueEndpoints> = NO_ENDPOINT_OVERRIDES,
+  heldAt: number | null = null
+) => {
+  const [books, setBooks] = useState<Record<string, VenueBookState>>({});
+  const [recording, setRecording] = useState(false);
+  const [lastRecording, setLastRecording] = useState<SessionRecorder['lastRecording']>(null);
+  const [replayStatus, setReplayStatus] = useState<ReplayStatus | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const subscriptionRef = useRef({ symbol, venueIds: new Set(venueIds) });
+  const liveSubscriptionRef = useRef(subscriptionRef.current);
+  const replayingRef = useRef(false);
+  const windowMsRef = useRef(history.windowMs);
+  const heldAtRef = useRef(heldAt);
+  heldAtRef.current = heldAt;
+  const venueKey = venueIds.join(',');
+  const { windowMs, sampleIntervalMs, depth } = history;
+
+  const post = useCallback((request: WorkerRequest) => workerRef.current?.postMessage(request), []);
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/orderbook.worker.ts', import.meta.url));
+
+    const switchSubscription = (next: typeof subscriptionRef.current) => {
+      subscriptionRef.current = next;
+      setBooks(Object.fromEntries([...next.venueIds].map(venueId => [venueId, createVenueBookState()])));
+    };
+
+    worker.onmessage = (event: MessageEvent<WorkerEvent>) => {
+      const message = event.data;
+
+      if (message.type === 'recording') {
+        setRecording(false);
+        setLastRecording({ header: message.header, text: message.text });
+        return;
+      }
+
+      if (message.type === 'replay') {
+        setReplayError(message.error ?? null);
+        if (message.error) return;
+
+        const { status } = message;
+        const wasReplaying = replayingRef.current;
+        replayingRef.current = status !== null;
+        setReplayStatus(status);
+
+        // Loading starts over from the recording's first event; exiting goes back to live books
+        if (status && !wasReplaying) {
+          setRecording(false);
+          switchSubscription({ symbol: status.symbol, venueIds: new Set(status.venueIds) });
+        } else if (!status && wasReplaying) {
+          switchSubscription(liveSubscriptionRef.current);
+        }
+        return;
+      }
+
+      const { symbol: frameSymbol, venues } = message;
+      const subscription = subscriptionRef.current;
+      // Frames already in flight when the subscription changed
+      if (frameSymbol !== subscription.symbol) return;
+
+      setBooks(prev => {
+        const next = { ...prev };
+        venues.forEach(frame => {
+          if (!subscription.venueIds.has(frame.venueId)) return;
+          next[frame.venueId] = applyFrame(next[frame.venueId] ?? createVenueBookState(), frame, windowMsRef.current, heldAtRef.current);
+        });
+        return next;
+      });
+    };
+
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  // Ahead of the subscription, so the first connections already go to the right place.
+  // Books from another source are a different market, so live ones start over.
+  const endpointKey = JSON.stringify(endpoints);
+  useEffect(() => {
+    post({ type: 'endpoints', overrides: JSON.parse(endpointKey) });
+    if (replayingRef.current) return;
+    setBooks(prev => Object.fromEntries(Object.keys(prev).map(venueId => [venueId, createVenueBookState()])));
+  }, [endpointKey, post]);
+
+  useEffect(() => {
+    const enabled = venueKey ? venueKey.split(',') : [];
+    const symbolChanged = liveSubscriptionRef.current.symbol !== symbol;
+    liveSubscriptionRef.current = { symbol, venueIds: new Set(enabled) };
+    post({ type: 'subscribe', symbol, venueIds: enabled });
+
+    // The worker holds on to the subscription until the replay ends
+    if (replayingRef.current) return;
+    subscriptionRef.current = liveSubscriptionRef.current;
+
+    // Books for a previous symbol are meaningless; venues that stay enabled keep theirs
+    setBooks(prev => Object.fromEntries(
+      enabled.map(venueId => [venueId, (!symbolChanged && prev[venueId]) || createVenueBookState()])
+    ));
+  }, [symbol, venueKey, post]);
+
+  // Worker effect above runs first, so this reaches the new worker on mount as well
+  useEffect(() => {
+    post({ type: 'configure', sampleIntervalMs, depth, windowMs });
+  }, [sampleIntervalMs, depth, windowMs, post]);
+
+  // Shrinking the window applies right away; growing it fills in as new samples arrive
+  useEffect(() => {
+    windowMsRef.current = windowMs;
+    setBooks(prev => {
+      const next: Record<string, VenueBookState> = {};
+      Object.entries(prev).forEach(([venueId, book]) => {
+        next[venueId] = {
+          ...book,
+          historicalData: trimToWindow(book.historicalData, windowMs, heldAtRef.current),
+          trades: trimTrades(book.trades, windowMs, heldAtRef.current)
+        };
+      });
+      return next;
+    });
+  }, [windowMs]);
+
+  const { topN, depthBps } = metricSettings;
+  const replayPosition = replayStatus?.position;
+  const metrics = useMemo(() => {
+    const settings = { topN, depthBps };
+    const byVenue: Record<string, VenueMetrics> = {};
+    Object.entries(books).forEach(([venueId, { orderbook, historicalData }]) => {
+      byVenue[venueId] = {
+        live: computeBookMetrics(orderbook, replayPosition ?? Date.now(), settings, historicalData[historicalData.length - 1]),
+        series: metricsSeries(historicalData, settings)
+      };
+    });
+    return byVenue;
+  }, [books, topN, depthBps, replayPosition]);
+
+  const recorder: SessionRecorder = useMemo(() => ({
+    recording,
+    lastRecording,
+    start: () => {
+      setRecording(true);
+      post({ type: 'record', recording: true });
+    },
+    // The worker answers with the finished recording
+    stop: () => post({ type: 'record', recording: false })
+  }), [recording, lastRecording, post]);
+
+  const replay: SessionReplay = useMemo(() => ({
+    status: replayStatus,
+    error: replayError,
+    load: async (file: Blob) => {
+      try {
+        post({ type: 'loadReplay', text: await readRecordingFile(file) });
+      } catch (error) {
+        setReplayError(error instanceof Error ? error.message : 'Unreadable recording');
+      }
+    },
+    setPlaying: (playing: boolean) => post({ type: 'controlReplay', playing }),
+    setSpeed: (speed: number) => post({ type: 'controlReplay', speed }),
+    seek: (time: number) => post({ type: 'controlReplay', seekTo: time }),
+    exit: () => post({ type: 'exitReplay' })
+  }), [replayStatus, replayError, post]);
+
+  const venueBooks = Object.values(books);
+  const connected = venueBooks.some(book => book.connected);
+  const error = venueBooks.find(book => book.error)?.error ?? null;
+
+  return { books, metrics, connected, error, recorder, replay };
+};
@@ -0,0 +1,97 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  SavedLayout,
+  ViewState,
+  exportLayouts,
+  parseLayouts,
+  parseViewState,
+  viewStateFromQuery,
+  viewStateToQuery
+} from '@/lib/viewState';
+
+const VIEW_STATE_KEY = 'view-state';
+const LAYOUTS_KEY = 'saved-layouts';
+
+// Camera moves arrive every frame while rotating; the URL and storage are rewritten at most this often
+const SAVE_INTERVAL_MS = 1000;
+
+const readStorage = <T>(key: string, parse: (value: unknown) => T, fallback: T): T => {
+  try {
+    const text = localStorage.getItem(key);
+    return text === null ? fallback : parse(JSON.parse(text));
+  } catch {
+    return fallback;
+  }
+};
+
+const writeStorage = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage full or unavailable; the view just won't outlive the session
+  }
+};
+
+// Restores the view once after mount, from the URL when it carries one and otherwise from the
+// last session, then mirrors changes back into both whenever `save` is called. Restoring waits
+// for the mount because the server render has neither a query nor storage to read.
+export const usePersistedViewState = (current: () => ViewState, apply: (state: ViewState) => void) => {
+  const [restored, setRestored] = useState(false);
+  const currentRef = useRef(current);
+  currentRef.current = current;
+  const applyRef = useRef(apply);
+  applyRef.current = apply;
+  const timerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  useEffect(() => {
+    const state = viewStateFromQuery(window.location.search) ?? readStorage<ViewState | null>(VIEW_STATE_KEY, parseViewState, null);
+    if (state) applyRef.current(state);
+    setRestored(true);
+  }, []);
+
+  useEffect(() => () => clearTimeout(timerRef.current), []);
+
+  const save = useCallback(() => {
+    if (timerRef.current !== undefined) return;
+    timerRef.current = setTimeout(() => {
+      timerRef.current = undefined;
+      const state = currentRef.current();
+      const query = viewStateToQuery(state);
+      const { pathname, hash } = window.location;
+      window.history.replaceState(window.history.state, '', `${pathname}${query ? `?${query}` : ''}${hash}`);
+      writeStorage(VIEW_STATE_KEY, state);
+    }, SAVE_INTERVAL_MS);
+  }, []);
+
+  return { restored, save };
+};
+
+// Named views kept in localStorage, newest name wins on a clash
+export const useSavedLayouts = () => {
+  const [layouts, setLayouts] = useState<SavedLayout[]>([]);
+
+  useEffect(() => {
+    setLayouts(readStorage(LAYOUTS_KEY, parseLayouts, []));
+  }, []);
+
+  const update = useCallback((change: (layouts: SavedLayout[]) => SavedLayout[]) => {
+    setLayouts(prev => {
+      const next = change(prev).sort((a, b) => a.name.localeCompare(b.name));
+      writeStorage(LAYOUTS_KEY, exportLayouts(next));
+      return next;
+    });
+  }, []);
+
+  const merge = useCallback((incoming: SavedLayout[]) => {
+    update(prev => [...prev.filter(layout => !incoming.some(entry => entry.name === layout.name)), ...incoming]);
+  }, [update]);
+
+  return {
+    layouts,
+    save: (name: string, state: ViewState) => merge([{ name, savedAt: Date.now(), state }]),
+    remove: (name: string) => update(prev => prev.filter(layout => layout.name !== name)),
+    importLayouts: merge
+  };
+};
@@ -0,0 +1,14 @@
+// Time source for market data. Live feeds read the wall clock; a replay swaps in
+// the recording's timeline so books, history and trades carry the recorded times.
+
+let source: () => number = () => Date.now();
+
+export const now = () => source();
+
+export const setClock = (next: () => number) => {
+  source = next;
+};
+
+export const resetClock = () => {
+  source = () => Date.now();
+};
@@ -0,0 +1,111 @@
+import { HistoricalData, OrderbookData, OrderbookLevel } from '@/types/orderbook';
+
+// Quantity each venue contributes to a merged price level, keyed by venue id
+export type VenueBreakdown = Record<string, number>;
+
+export interface AggregatedLevel extends OrderbookLevel {
+  venues: VenueBreakdown;
+}
+
+export interface AggregatedOrderbook extends OrderbookData {
+  bids: AggregatedLevel[];
+  asks: AggregatedLevel[];
+}
+
+export interface AggregatedSnapshot extends HistoricalData {
+  bids: AggregatedLevel[];
+  asks: AggregatedLevel[];
+}
+
+export interface VenueBookInput {
+  venueId: string;
+  orderbook: OrderbookData;
+  historicalData: HistoricalData[];
+}
+
+// Roughly five significant digits of the reference price: 1 for ~60000, 0.1 for ~3000
+export const autoBucketSize = (referencePrice: number): number => {
+  if (!(referencePrice > 0)) return 1;
+  return Math.pow(10, Math.floor(Math.log10(referencePrice)) - 4);
+};
+
+// Multiples of the automatic bucket size the consolidated view offers
+export const BUCKET_MULTIPLIERS = [1, 5, 10, 50];
+
+// Bids round down and asks round up so bucketing never makes the merged book cross
+const bucketIndex = (price: number, bucketSize: number, side: 'bid' | 'ask') => {
+  const scaled = price / bucketSize;
+  return side === 'bid' ? Math.floor(scaled + 1e-9) : Math.ceil(scaled - 1e-9);
+};
+
+const bucketPrice = (index: number, bucketSize: number) => {
+  const decimals = Math.max(0, -Math.floor(Math.log10(bucketSize)));
+  return parseFloat((index * bucketSize).toFixed(decimals));
+};
+
+type VenueLevels = { venueId: string; bids: OrderbookLevel[]; asks: OrderbookLevel[] };
+
+const mergeSide = (books: VenueLevels[], side: 'bid' | 'ask', bucketSize: number): AggregatedLevel[] => {
+  const buckets = new Map<number, AggregatedLevel>();
+
+  books.forEach(book => {
+    (side === 'bid' ? book.bids : book.asks).forEach(level => {
+      const index = bucketIndex(level.price, bucketSize, side);
+      let bucket = buckets.get(index);
+      if (!bucket) {
+        bucket = { price: bucketPrice(index, bucketSize), quantity: 0, timestamp: 0, venues: {} };
+        buckets.set(index, bucket);
+      }
+      bucket.quantity += level.quantity;
+      bucket.timestamp = Math.max(bucket.timestamp, level.timestamp);
+      bucket.venues[book.venueId] = (bucket.venues[book.venueId] ?? 0) + level.quantity;
+    });
+  });
+
+  return [...buckets.values()].sort((a, b) => side === 'bid' ? b.price - a.price : a.price - b.price);
+};
+
+// Sums quantity per bucketed price level across venues, keeping the per-venue breakdown
+export const aggregateOrderbooks = (
+  books: { venueId: string; orderbook: OrderbookData }[],
+  bucketSize: number
+): AggregatedOrderbook => {
+  const levels = books.map(({ venueId, orderbook }) => ({ venueId, bids: orderbook.bids, asks: orderbook.asks }));
+
+  return {
+    bids: mergeSide(levels, 'bid', bucketSize),
+    asks: mergeSide(levels, 'ask', bucketSize),
+    // Merged books have no sequence of their own; this only moves when a venue's does
+    lastUpdateId: books.reduce((sum, { orderbook }) => sum + orderbook.lastUpdateId, 0)
+  };
+};
+
+// Venues snapshot on their own clocks, so each merged slice combines the latest
+// snapshot every venue had at that moment
+export const aggregateHistory = (
+  books: VenueBookInput[],
+  bucketSize: number,
+  maxSnapshots: number = 60,
+  depth: number = 20
+): AggregatedSnapshot[] => {
+  const timestamps = [...new Set(books.flatMap(({ historicalData }) => historicalData.map(s => s.timestamp)))]
+    .sort((a, b) => a - b)
+    .slice(-maxSnapshots);
+  const cursors = books.map(() => -1);
+
+  return timestamps.map(timestamp => {
+    const current = books.flatMap(({ venueId, historicalData }, bookIndex) => {
+      while (cursors[bookIndex] + 1 < historicalData.length && historicalData[cursors[bookIndex] + 1].timestamp <= timestamp) {
+        cursors[bookIndex]++;
+      }
+      const snapshot = historicalData[cursors[bookIndex]];
+      return snapshot ? [{ venueId, bids: snapshot.bids, asks: snapshot.asks }] : [];
+    });
+
+    return {
+      timestamp,
+      bids: mergeSide(current, 'bid', bucketSize).slice(0, depth),
+      asks: mergeSide(current, 'ask', bucketSize).slice(0, depth)
+    };
+  });
+};
@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createOrderBook } from './book';
+
+describe('createOrderBook', () => {
+  it('replaces the whole book on a snapshot', () => {
+    const book = createOrderBook();
+    book.applySnapshot({ bids: [[99, 1], [98, 2]], asks: [[101, 1]], lastUpdateId: 5, timestamp: 0 });
+    book.applySnapshot({ bids: [[97, 4]], asks: [[102, 3]], lastUpdateId: 9, timestamp: 1 });
+
+    assert.equal(book.lastUpdateId, 9);
+    assert.deepEqual(book.bids.top().map(level => level.price), [97]);
+    assert.deepEqual(book.asks.top().map(level => level.price), [102]);
+  });
+
+  it('applies diffs on top of the snapshot', () => {
+    const book = createOrderBook();
+    book.applySnapshot({ bids: [[99, 1], [98, 2]], asks: [[101, 1], [102, 2]], lastUpdateId: 5, timestamp: 0 });
+    book.applyUpdate({ bids: [[99, 0], [100, 3]], asks: [[101, 4]], lastUpdateId: 6, timestamp: 1 });
+
+    assert.equal(book.lastUpdateId, 6);
+    assert.deepEqual(book.bestBid(), { price: 100, quantity: 3, timestamp: 1 });
+    assert.deepEqual(book.bestAsk(), { price: 101, quantity: 4, timestamp: 1 });
+    assert.deepEqual(book.bids.top().map(level => level.price), [100, 98]);
+  });
+
+  it('hands out the same snapshot until the book changes', () => {
+    const book = createOrderBook();
+    book.applySnapshot({ bids: [[99, 1]], asks: [[101, 1]], lastUpdateId: 1, timestamp: 0 });
+
+    const first = book.snapshot();
+    assert.equal(book.snapshot(), first);
+
+    book.applyUpdate({ bids: [[99, 2]], asks: [], lastUpdateId: 2, timestamp: 1 });
+    const second = book.snapshot();
+    assert.notEqual(second, first);
+    assert.equal(first.bids[0].quantity, 1);
+    assert.equal(second.bids[0].quantity, 2);
+  });
+});
@@ -0,0 +1,58 @@
+import { OrderbookData, OrderbookLevel } from '@/types/orderbook';
+import { DepthMessage } from '@/lib/venues';
+import { PriceLadder, createPriceLadder } from './priceLadder';
+
+type BookChange = Pick<DepthMessage, 'bids' | 'asks' | 'lastUpdateId' | 'timestamp'>;
+
+export interface OrderBook {
+  readonly bids: PriceLadder;
+  readonly asks: PriceLadder;
+  readonly lastUpdateId: number;
+  // Replaces the whole book
+  applySnapshot: (snapshot: BookChange) => void;
+  // Applies a diff; a quantity of 0 removes the level
+  applyUpdate: (update: BookChange) => void;
+  bestBid: () => OrderbookLevel | undefined;
+  bestAsk: () => OrderbookLevel | undefined;
+  // Immutable view for React. Returns the same object until the book changes again.
+  snapshot: () => OrderbookData;
+}
+
+export const createOrderBook = (): OrderBook => {
+  const bids = createPriceLadder('bid');
+  const asks = createPriceLadder('ask');
+  let lastUpdateId = 0;
+  let cached: OrderbookData | null = null;
+
+  const apply = ({ bids: bidChanges, asks: askChanges, lastUpdateId: updateId, timestamp }: BookChange) => {
+    bidChanges.forEach(([price, quantity]) => bids.set(price, quantity, timestamp));
+    askChanges.forEach(([price, quantity]) => asks.set(price, quantity, timestamp));
+    lastUpdateId = updateId;
+    cached = null;
+  };
+
+  return {
+    bids,
+    asks,
+
+    get lastUpdateId() {
+      return lastUpdateId;
+    },
+
+    applySnapshot: (snapshot: BookChange) => {
+      bids.clear();
+      asks.clear();
+      apply(snapshot);
+    },
+
+    applyUpdate: apply,
+
+    bestBid: () => bids.best(),
+    bestAsk: () => asks.best(),
+
+    snapshot: () => {
+      if (!cached) cached = { bids: bids.top(), asks: asks.top(), lastUpdateId };
+      return cached;
+    }
+  };
+};
@@ -0,0 +1,162 @@
+import { Heartbeat } from '@/lib/venues';
+
+// One logical stream connection that survives socket drops: reconnects with exponential
+// backoff and jitter, keeps venues that expect client pings alive, and treats a socket
+// that goes quiet as dead. Only the current socket's events are ever delivered, so a
+// socket that was replaced or torn down can't resurrect the stream or overwrite state.
+
+export interface BackoffSettings {
+  initialMs: number;
+  maxMs: number;
+  multiplier: number;
+  // Each delay is spread uniformly by ± this fraction, so clients don't reconnect in lockstep
+  jitter: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffSettings = {
+  initialMs: 500,
+  maxMs: 30_000,
+  multiplier: 2,
+  jitter: 0.3
+};
+
+export interface ConnectionOptions {
+  backoff: BackoffSettings;
+  // Quiet this long marks the stream stale; quiet twice as long drops it and reconnects
+  staleAfterMs: number;
+  heartbeat?: Heartbeat;
+}
+
+export const DEFAULT_STALE_AFTER_MS = 15_000;
+
+export interface ConnectionHandlers {
+  onOpen: (send: (message: string) => void) => void;
+  onMessage: (data: string) => void;
+  onStale: () => void;
+  // Only for sockets that had opened; every loss is followed by onReconnecting
+  onClose: () => void;
+  onReconnecting: (attempt: number, delayMs: number) => void;
+  onError: () => void;
+}
+
+export interface Connection {
+  // Drops the socket and connects again. Immediate restarts are deliberate (a resync),
+  // so they don't count towards the backoff.
+  restart: (immediate?: boolean) => void;
+  // The stream proved healthy; the next loss starts backing off from the beginning again
+  markHealthy: () => void;
+  close: () => void;
+}
+
+export const backoffDelay = (attempt: number, settings: BackoffSettings, random: () => number = Math.random) => {
+  const base = Math.min(settings.maxMs, settings.initialMs * Math.pow(settings.multiplier, attempt));
+  return Math.round(base * (1 + settings.jitter * (2 * random() - 1)));
+};
+
+export const openConnection = (
+  url: () => string,
+  handlers: ConnectionHandlers,
+  options: ConnectionOptions = { backoff: DEFAULT_BACKOFF, staleAfterMs: DEFAULT_STALE_AFTER_MS }
+): Connection => {
+  let socket: WebSocket | null = null;
+  let opened = false;
+  let attempt = 0;
+  let closed = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let staleTimer: ReturnType<typeof setTimeout> | undefined;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+
+  const stopSocketTimers = () => {
+    clearTimeout(staleTimer);
+    clearInterval(heartbeatTimer);
+  };
+
+  const scheduleReconnect = (delayMs?: number) => {
+    if (closed || reconnectTimer !== undefined) return;
+    const delay = delayMs ?? backoffDelay(attempt++, options.backoff);
+    handlers.onReconnecting(attempt, delay);
+    reconnectTimer = setTimeout(connect, delay);
+  };
+
+  // Detaches the current socket first, so its own close event is ignored
+  const drop = (delayMs?: number) => {
+    const current = socket;
+    const wasOpen = opened;
+    socket = null;
+    opened = false;
+    stopSocketTimers();
+    current?.close();
+    if (wasOpen) handlers.onClose();
+    scheduleReconnect(delayMs);
+  };
+
+  const watchForSilence = () => {
+    clearTimeout(staleTimer);
+    staleTimer = setTimeout(() => {
+      handlers.onStale();
+      staleTimer = setTimeout(() => drop(), options.staleAfterMs);
+    }, options.staleAfterMs);
+  };
+
+  const connect = () => {
+    reconnectTimer = undefined;
+    if (closed) return;
+
+    let current: WebSocket;
+    try {
+      current = new WebSocket(url());
+    } catch {
+      handlers.onError();
+      scheduleReconnect();
+      return;
+    }
+    socket = current;
+
+    current.onopen = () => {
+      if (socket !== current) return;
+      opened = true;
+      handlers.onOpen(message => current.send(message));
+      watchForSilence();
+
+      const { heartbeat } = options;
+      if (heartbeat) heartbeatTimer = setInterval(() => current.send(heartbeat.message), heartbeat.intervalMs);
+    };
+
+    current.onmessage = (event) => {
+      if (socket !== current) return;
+      watchForSilence();
+      if (options.heartbeat?.reply !== undefined && event.data === options.heartbeat.reply) return;
+      handlers.onMessage(event.data);
+    };
+
+    current.onerror = () => {
+      if (socket === current) handlers.onError();
+    };
+
+    current.onclose = () => {
+      if (socket === current) drop();
+    };
+  };
+
+  connect();
+
+  return {
+    restart: (immediate = false) => {
+      if (closed) return;
+      drop(immediate ? 0 : undefined);
+    },
+
+    markHealthy: () => {
+      attempt = 0;
+    },
+
+    close: () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      stopSocketTimers();
+      const current = socket;
+      socket = null;
+      current?.close();
+    }
+  };
+};
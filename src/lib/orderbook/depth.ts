@@ -0,0 +1,40 @@
+import { OrderbookData, OrderbookLevel } from '@/types/orderbook';
+
+export interface DepthPoint {
+  price: number;
+  quantity: number;
+  // Total size from the best price out to and including this level
+  cumulative: number;
+}
+
+export interface DepthCurve {
+  bids: DepthPoint[];
+  asks: DepthPoint[];
+  totals: { bids: number; asks: number };
+}
+
+// Levels must be in priority order (best first), as books and snapshots keep them
+export const cumulativeDepth = (levels: OrderbookLevel[]): DepthPoint[] => {
+  let cumulative = 0;
+  return levels.map(level => {
+    cumulative += level.quantity;
+    return { price: level.price, quantity: level.quantity, cumulative };
+  });
+};
+
+export const depthCurve = (orderbook: Pick<OrderbookData, 'bids' | 'asks'>): DepthCurve => {
+  const bids = cumulativeDepth(orderbook.bids);
+  const asks = cumulativeDepth(orderbook.asks);
+  return {
+    bids,
+    asks,
+    totals: {
+      bids: bids[bids.length - 1]?.cumulative ?? 0,
+      asks: asks[asks.length - 1]?.cumulative ?? 0
+    }
+  };
+};
+
+// Midpoint of the best bid and ask, or NaN for a one-sided book
+export const midPrice = (book: Pick<OrderbookData, 'bids' | 'asks'>): number =>
+  book.bids.length > 0 && book.asks.length > 0 ? (book.bids[0].price + book.asks[0].price) / 2 : NaN;
@@ -0,0 +1,65 @@
+import { OrderbookData, OrderbookLevel } from '@/types/orderbook';
+import { midPrice } from './depth';
+
+export type SideFilter = 'both' | 'bids' | 'asks';
+
+export interface LevelFilters {
+  minQuantity: number;
+  // Price x quantity, in the quote currency
+  minNotional: number;
+  side: SideFilter;
+  // Keeps levels within +/- width of the book's own mid; 'off' disables the band
+  priceBand: { mode: 'off' | 'absolute' | 'bps'; width: number };
+  // Hides levels not updated for this long; 0 disables
+  maxAgeMs: number;
+}
+
+export const DEFAULT_LEVEL_FILTERS: LevelFilters = {
+  minQuantity: 0,
+  minNotional: 0,
+  side: 'both',
+  priceBand: { mode: 'off', width: 0 },
+  maxAgeMs: 0
+};
+
+export const hasActiveFilters = (filters: LevelFilters) =>
+  filters.minQuantity > 0 ||
+  filters.minNotional > 0 ||
+  filters.side !== 'both' ||
+  (filters.priceBand.mode !== 'off' && filters.priceBand.width > 0) ||
+  filters.maxAgeMs > 0;
+
+// Applies the filters to one book or history sample. Age is measured back from `now`, which
+// for a history sample should be its own timestamp. Unfiltered books come back unchanged.
+export const filterBook = <T extends Pick<OrderbookData, 'bids' | 'asks'>>(book: T, filters: LevelFilters, now: number): T => {
+  if (!hasActiveFilters(filters)) return book;
+
+  const mid = midPrice(book);
+  const bandWidth = filters.priceBand.mode === 'bps' ? (mid * filters.priceBand.width) / 10_000 : filters.priceBand.width;
+  const useBand = filters.priceBand.mode !== 'off' && bandWidth > 0 && !Number.isNaN(mid);
+
+  const keep = (level: OrderbookLevel) =>
+    level.quantity >= filters.minQuantity &&
+    level.price * level.quantity >= filters.minNotional &&
+    (!useBand || Math.abs(level.price - mid) <= bandWidth) &&
+    (filters.maxAgeMs <= 0 || now - level.timestamp <= filters.maxAgeMs);
+
+  return {
+    ...book,
+    bids: filters.side === 'asks' ? [] : book.bids.filter(keep),
+    asks: filters.side === 'bids' ? [] : book.asks.filter(keep)
+  };
+};
+
+// Short human-readable lines, one per active filter
+export const describeFilters = (filters: LevelFilters): string[] => {
+  const lines: string[] = [];
+  if (filters.side !== 'both') lines.push(filters.side === 'bids' ? 'Bids only' : 'Asks only');
+  if (filters.minQuantity > 0) lines.push(`Size ≥ ${filters.minQuantity}`);
+  if (filters.minNotional > 0) lines.push(`Notional ≥ ${filters.minNotional.toLocaleString()}`);
+  if (filters.priceBand.mode !== 'off' && filters.priceBand.width > 0) {
+    lines.push(`Mid ± ${filters.priceBand.width}${filters.priceBand.mode === 'bps' ? ' bp' : ''}`);
+  }
+  if (filters.maxAgeMs > 0) lines.push(`Updated < ${filters.maxAgeMs / 1000}s ago`);
+  return lines;
+};
@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { HistoricalData } from '@/types/orderbook';
+import { WallDetectionSettings, trackLiquidityWalls } from './liquidityWalls';
+
+const settings: WallDetectionSettings = { mode: 'absolute', value: 10, maxGapLevels: 0, minSamples: 1 };
+
+const sample = (timestamp: number, asks: [number, number][]): HistoricalData => ({
+  timestamp,
+  bids: [{ price: 99, quantity: 1, timestamp }],
+  asks: asks.map(([price, quantity]) => ({ price, quantity, timestamp }))
+});
+
+describe('trackLiquidityWalls', () => {
+  it('carries the oldest wall on through a merge and retires the other', () => {
+    const walls = trackLiquidityWalls([
+      sample(0, [[101, 50]]),
+      sample(1, [[101, 50], [102, 1], [103, 50]]),
+      sample(2, [[101, 50], [102, 50], [103, 50]]),
+      sample(3, [[101, 50], [102, 50], [103, 50]])
+    ], settings);
+
+    assert.deepEqual(
+      walls.map(wall => [wall.status, wall.startTime, wall.endTime, wall.priceLow, wall.priceHigh, wall.quantity]),
+      [['active', 0, 3, 101, 103, 150], ['merged', 1, 1, 103, 103, 50]]
+    );
+  });
+
+  it('marks a wall that vanishes away from the top of the book as pulled', () => {
+    const walls = trackLiquidityWalls([
+      sample(0, [[101, 1], [102, 50]]),
+      sample(1, [[101, 1], [102, 1]])
+    ], settings);
+
+    assert.deepEqual(walls.map(wall => [wall.priceLow, wall.status]), [[102, 'pulled']]);
+  });
+});
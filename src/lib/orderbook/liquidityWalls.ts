@@ -0,0 +1,173 @@
+import { HistoricalData, OrderbookLevel } from '@/types/orderbook';
+import { midPrice } from './depth';
+
+export type WallThresholdMode =
+  // Quantity more than `value` standard deviations above the mean level size
+  | 'zscore'
+  // Quantity more than `value` times the median level size
+  | 'median'
+  // Quantity more than `value` in base units
+  | 'absolute';
+
+export interface WallDetectionSettings {
+  mode: WallThresholdMode;
+  value: number;
+  // Lighter levels allowed inside one cluster between heavy ones
+  maxGapLevels: number;
+  // Clusters seen in fewer consecutive samples are treated as noise
+  minSamples: number;
+}
+
+export const DEFAULT_WALL_DETECTION: WallDetectionSettings = { mode: 'zscore', value: 2, maxGapLevels: 1, minSamples: 2 };
+
+// Run of adjacent heavy levels on one side of a single book
+export interface WallCluster {
+  side: 'bid' | 'ask';
+  priceLow: number;
+  priceHigh: number;
+  quantity: number;
+}
+
+// 'pulled': vanished while price stayed away, i.e. cancelled.
+// 'absorbed': vanished as price traded through it.
+// 'merged': grew into an older wall, which carries on with its liquidity.
+export type WallStatus = 'active' | 'pulled' | 'absorbed' | 'merged';
+
+// A cluster followed through consecutive samples
+export interface LiquidityWall extends WallCluster {
+  id: number;
+  startTime: number;
+  // Last sample the wall was seen in
+  endTime: number;
+  samples: number;
+  peakQuantity: number;
+  // Mid of the last sample the wall was seen in
+  mid: number;
+  status: WallStatus;
+}
+
+const heavyThreshold = (levels: OrderbookLevel[], settings: WallDetectionSettings) => {
+  if (settings.mode === 'absolute' || levels.length === 0) return settings.value;
+
+  const quantities = levels.map(level => level.quantity);
+  if (settings.mode === 'median') {
+    const sorted = [...quantities].sort((a, b) => a - b);
+    const middle = sorted.length >> 1;
+    const median = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+    return median * settings.value;
+  }
+
+  const mean = quantities.reduce((sum, quantity) => sum + quantity, 0) / quantities.length;
+  const variance = quantities.reduce((sum, quantity) => sum + (quantity - mean) ** 2, 0) / quantities.length;
+  return mean + settings.value * Math.sqrt(variance);
+};
+
+const clusterSide = (levels: OrderbookLevel[], side: 'bid' | 'ask', threshold: number, maxGapLevels: number) => {
+  const clusters: WallCluster[] = [];
+  let current: WallCluster | null = null;
+  let gap = 0;
+
+  levels.forEach(level => {
+    // Strictly above, so a perfectly flat book has no walls at all
+    if (level.quantity <= threshold) {
+      if (current && ++gap > maxGapLevels) current = null;
+      return;
+    }
+    gap = 0;
+    if (current) {
+      current.priceLow = Math.min(current.priceLow, level.price);
+      current.priceHigh = Math.max(current.priceHigh, level.price);
+      current.quantity += level.quantity;
+    } else {
+      current = { side, priceLow: level.price, priceHigh: level.price, quantity: level.quantity };
+      clusters.push(current);
+    }
+  });
+
+  return clusters;
+};
+
+// Clusters heavy levels on both sides of one book; both sides share one threshold
+export const detectWallClusters = (book: Pick<HistoricalData, 'bids' | 'asks'>, settings: WallDetectionSettings): WallCluster[] => {
+  const threshold = heavyThreshold([...book.bids, ...book.asks], settings);
+  if (!(threshold > 0)) return [];
+  return [
+    ...clusterSide(book.bids, 'bid', threshold, settings.maxGapLevels),
+    ...clusterSide(book.asks, 'ask', threshold, settings.maxGapLevels)
+  ];
+};
+
+const overlaps = (wall: WallCluster, cluster: WallCluster) =>
+  wall.side === cluster.side && cluster.priceLow <= wall.priceHigh && cluster.priceHigh >= wall.priceLow;
+
+// A wall at the top of the book that disappears while price moves past it was traded through;
+// anything else that disappears was cancelled. Without trades this is the best available guess.
+const endStatus = (wall: LiquidityWall, previous: Pick<HistoricalData, 'bids' | 'asks'>, next: Pick<HistoricalData, 'bids' | 'asks'>): WallStatus => {
+  if (wall.side === 'bid') {
+    const wasAtTop = (previous.bids[0]?.price ?? -Infinity) <= wall.priceHigh;
+    const movedThrough = (next.bids[0]?.price ?? Infinity) < wall.priceLow;
+    return wasAtTop && movedThrough ? 'absorbed' : 'pulled';
+  }
+  const wasAtTop = (previous.asks[0]?.price ?? Infinity) >= wall.priceLow;
+  const movedThrough = (next.asks[0]?.price ?? -Infinity) > wall.priceHigh;
+  return wasAtTop && movedThrough ? 'absorbed' : 'pulled';
+};
+
+// Follows walls through a venue's history (oldest first). Ended walls are kept so their
+// whole lifetime can be drawn; walls still present in the last sample stay 'active'.
+export const trackLiquidityWalls = (historicalData: HistoricalData[], settings: WallDetectionSettings): LiquidityWall[] => {
+  const walls: LiquidityWall[] = [];
+  let active: LiquidityWall[] = [];
+  let nextId = 0;
+
+  historicalData.forEach((snapshot, index) => {
+    const clusters = detectWallClusters(snapshot, settings);
+    const mid = midPrice(snapshot);
+    const stillActive: LiquidityWall[] = [];
+    const continued = new Set<WallCluster>();
+
+    // Oldest first, so when walls merge the oldest one keeps the merged cluster
+    active.forEach(wall => {
+      const overlapping = clusters.filter(cluster => overlaps(wall, cluster));
+      if (overlapping.length === 0) {
+        wall.status = endStatus(wall, historicalData[index - 1], snapshot);
+        return;
+      }
+      const matched = overlapping.filter(cluster => !continued.has(cluster));
+      if (matched.length === 0) {
+        wall.status = 'merged';
+        return;
+      }
+      // A wall that splits keeps one identity spanning all of its pieces
+      matched.forEach(cluster => continued.add(cluster));
+      wall.priceLow = Math.min(...matched.map(cluster => cluster.priceLow));
+      wall.priceHigh = Math.max(...matched.map(cluster => cluster.priceHigh));
+      wall.quantity = matched.reduce((sum, cluster) => sum + cluster.quantity, 0);
+      wall.peakQuantity = Math.max(wall.peakQuantity, wall.quantity);
+      wall.endTime = snapshot.timestamp;
+      wall.mid = mid;
+      wall.samples++;
+      stillActive.push(wall);
+    });
+
+    clusters.filter(cluster => !continued.has(cluster)).forEach(cluster => {
+      const wall: LiquidityWall = {
+        ...cluster,
+        id: nextId++,
+        startTime: snapshot.timestamp,
+        endTime: snapshot.timestamp,
+        samples: 1,
+        peakQuantity: cluster.quantity,
+        mid,
+        status: 'active'
+      };
+      walls.push(wall);
+      stillActive.push(wall);
+    });
+
+    active = stillActive;
+  });
+
+  // A new wall shows up once it has lasted minSamples
+  return walls.filter(wall => wall.samples >= settings.minSamples);
+};
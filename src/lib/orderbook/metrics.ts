@@ -0,0 +1,83 @@
+import { HistoricalData, OrderbookData } from '@/types/orderbook';
+import { midPrice } from './depth';
+
+export interface MetricSettings {
+  // Levels per side counted by the imbalance
+  topN: number;
+  // Half-width of the band around mid counted by depthBids / depthAsks
+  depthBps: number;
+}
+
+export const DEFAULT_METRIC_SETTINGS: MetricSettings = { topN: 10, depthBps: 10 };
+
+// Values are NaN where the book does not define them (e.g. one side empty)
+export interface BookMetrics {
+  timestamp: number;
+  mid: number;
+  // Mid weighted by the opposite side's top size; leans towards where the next trade is likelier
+  microprice: number;
+  spread: number;
+  spreadBps: number;
+  // (bids - asks) / (bids + asks) over the top N levels, in [-1, 1]
+  imbalance: number;
+  // Order-flow imbalance at the touch since the previous book (Cont, Kukanov & Stoikov);
+  // positive when bid-side pressure grew. 0 for the first book of a series.
+  ofi: number;
+  depthBids: number;
+  depthAsks: number;
+}
+
+type Book = Pick<OrderbookData, 'bids' | 'asks'>;
+
+const orderFlowImbalance = (book: Book, previous: Book) => {
+  const bid = book.bids[0];
+  const ask = book.asks[0];
+  const prevBid = previous.bids[0];
+  const prevAsk = previous.asks[0];
+  if (!bid || !ask || !prevBid || !prevAsk) return 0;
+
+  const bidFlow = (bid.price >= prevBid.price ? bid.quantity : 0) - (bid.price <= prevBid.price ? prevBid.quantity : 0);
+  const askFlow = (ask.price <= prevAsk.price ? ask.quantity : 0) - (ask.price >= prevAsk.price ? prevAsk.quantity : 0);
+  return bidFlow - askFlow;
+};
+
+export const computeBookMetrics = (book: Book, timestamp: number, settings: MetricSettings, previous?: Book): BookMetrics => {
+  const bid = book.bids[0];
+  const ask = book.asks[0];
+  const mid = midPrice(book);
+  const spread = bid && ask ? ask.price - bid.price : NaN;
+
+  const topBids = book.bids.slice(0, settings.topN).reduce((sum, level) => sum + level.quantity, 0);
+  const topAsks = book.asks.slice(0, settings.topN).reduce((sum, level) => sum + level.quantity, 0);
+
+  // Books are in priority order, so the band is a prefix of each side
+  const band = (mid * settings.depthBps) / 10_000;
+  let depthBids = 0;
+  for (const level of book.bids) {
+    if (!(level.price >= mid - band)) break;
+    depthBids += level.quantity;
+  }
+  let depthAsks = 0;
+  for (const level of book.asks) {
+    if (!(level.price <= mid + band)) break;
+    depthAsks += level.quantity;
+  }
+
+  return {
+    timestamp,
+    mid,
+    microprice: bid && ask ? (bid.price * ask.quantity + ask.price * bid.quantity) / (bid.quantity + ask.quantity) : NaN,
+    spread,
+    spreadBps: (spread / mid) * 10_000,
+    imbalance: topBids + topAsks > 0 ? (topBids - topAsks) / (topBids + topAsks) : NaN,
+    ofi: previous ? orderFlowImbalance(book, previous) : 0,
+    depthBids,
+    depthAsks
+  };
+};
+
+// One entry per history sample, OFI measured between consecutive samples
+export const metricsSeries = (historicalData: HistoricalData[], settings: MetricSettings): BookMetrics[] =>
+  historicalData.map((snapshot, index) =>
+    computeBookMetrics(snapshot, snapshot.timestamp, settings, historicalData[index - 1])
+  );
@@ -0,0 +1,40 @@
+import { OrderbookData, OrderbookLevel, VenueOrderbook } from '@/types/orderbook';
+import { VenueBreakdown } from './aggregate';
+
+// Books of different symbols only compare once their quantities share a unit. Expressed as
+// notional (price x quantity, in the quote currency), a BTC wall and an ETH wall of equal
+// value stand equally tall. Prices are made comparable separately, by a basis-point axis.
+
+const notionalLevel = <T extends OrderbookLevel>(level: T): T => {
+  const notional = { ...level, quantity: level.quantity * level.price };
+  // Merged levels carry each venue's share, which has to move to the same unit
+  if ('venues' in level) {
+    const venues = level.venues as VenueBreakdown;
+    Object.assign(notional, {
+      venues: Object.fromEntries(Object.entries(venues).map(([venueId, quantity]) => [venueId, quantity * level.price]))
+    });
+  }
+  return notional;
+};
+
+export const notionalBook = <T extends Pick<OrderbookData, 'bids' | 'asks'>>(book: T): T => ({
+  ...book,
+  bids: book.bids.map(notionalLevel),
+  asks: book.asks.map(notionalLevel)
+});
+
+export const notionalLayer = (layer: VenueOrderbook): VenueOrderbook => ({
+  ...layer,
+  orderbook: notionalBook(layer.orderbook),
+  historicalData: layer.historicalData.map(notionalBook)
+});
+
+// Largest single level anywhere in the layers' history, the natural top of a bar height scale
+export const peakLevelQuantity = (layers: VenueOrderbook[]) => {
+  let peak = 0;
+  layers.forEach(({ historicalData }) => historicalData.forEach(snapshot => {
+    snapshot.bids.forEach(level => { peak = Math.max(peak, level.quantity); });
+    snapshot.asks.forEach(level => { peak = Math.max(peak, level.quantity); });
+  }));
+  return peak;
+};
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPriceLadder } from './priceLadder';
+
+// Deterministic stand-in for random input, so a failure always replays the same way
+const sequence = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+describe('createPriceLadder', () => {
+  it('keeps bids high to low and asks low to high', () => {
+    const bids = createPriceLadder('bid');
+    const asks = createPriceLadder('ask');
+    [101, 99, 100].forEach(price => {
+      bids.set(price, 1, 0);
+      asks.set(price, 1, 0);
+    });
+
+    assert.deepEqual(bids.top().map(level => level.price), [101, 100, 99]);
+    assert.deepEqual(asks.top().map(level => level.price), [99, 100, 101]);
+    assert.equal(bids.best()?.price, 101);
+    assert.equal(asks.best()?.price, 99);
+  });
+
+  it('replaces the level at an existing price', () => {
+    const ladder = createPriceLadder('ask');
+    ladder.set(100, 1, 1);
+    ladder.set(100, 3, 2);
+
+    assert.equal(ladder.size, 1);
+    assert.deepEqual(ladder.get(100), { price: 100, quantity: 3, timestamp: 2 });
+  });
+
+  it('removes a level on a zero quantity or a delete', () => {
+    const ladder = createPriceLadder('bid');
+    [100, 99, 98].forEach(price => ladder.set(price, 1, 0));
+
+    ladder.set(100, 0, 1);
+    assert.equal(ladder.delete(98), true);
+    assert.equal(ladder.delete(97), false);
+
+    assert.equal(ladder.size, 1);
+    assert.equal(ladder.best()?.price, 99);
+    assert.equal(ladder.get(100), undefined);
+  });
+
+  it('limits top to the first n levels and starts over after clear', () => {
+    const ladder = createPriceLadder('ask');
+    [5, 3, 4, 1, 2].forEach(price => ladder.set(price, 1, 0));
+
+    assert.deepEqual(ladder.top(2).map(level => level.price), [1, 2]);
+
+    ladder.clear();
+    assert.equal(ladder.size, 0);
+    assert.equal(ladder.best(), undefined);
+    ladder.set(7, 1, 0);
+    assert.deepEqual(ladder.top().map(level => level.price), [7]);
+  });
+
+  it('matches a sorted map over a long run of upserts and deletes', () => {
+    const random = sequence(42);
+    const ladder = createPriceLadder('bid');
+    const expected = new Map<number, number>();
+
+    for (let step = 0; step < 5000; step++) {
+      const price = 1000 + Math.floor(random() * 200);
+      const quantity = random() < 0.3 ? 0 : Math.ceil(random() * 10);
+      ladder.set(price, quantity, step);
+      if (quantity === 0) expected.delete(price);
+      else expected.set(price, quantity);
+    }
+
+    const levels = [...expected].sort(([a], [b]) => b - a);
+    assert.equal(ladder.size, expected.size);
+    assert.deepEqual(ladder.top().map(level => [level.price, level.quantity]), levels);
+  });
+});
@@ -0,0 +1,127 @@
+import { OrderbookLevel } from '@/types/orderbook';
+
+export type BookSide = 'bid' | 'ask';
+
+// One side of a book kept in priority order (bids high to low, asks low to high).
+// Backed by a skip list, so upserts and deletes are O(log n) and the best levels are
+// read straight off the front. Levels handed out are never mutated afterwards.
+export interface PriceLadder {
+  readonly side: BookSide;
+  readonly size: number;
+  get: (price: number) => OrderbookLevel | undefined;
+  // A quantity of 0 removes the level
+  set: (price: number, quantity: number, timestamp: number) => void;
+  delete: (price: number) => boolean;
+  clear: () => void;
+  best: () => OrderbookLevel | undefined;
+  // First n levels in priority order; the returned array is fresh on every call
+  top: (n?: number) => OrderbookLevel[];
+}
+
+interface LadderNode {
+  price: number;
+  level: OrderbookLevel;
+  next: (LadderNode | null)[];
+}
+
+const MAX_HEIGHT = 24; // comfortable up to ~16M levels
+const PROMOTION = 0.25;
+
+const randomHeight = () => {
+  let height = 1;
+  while (height < MAX_HEIGHT && Math.random() < PROMOTION) height++;
+  return height;
+};
+
+export const createPriceLadder = (side: BookSide): PriceLadder => {
+  // Negative when a sorts ahead of b
+  const compare = side === 'bid' ? (a: number, b: number) => b - a : (a: number, b: number) => a - b;
+
+  let head: LadderNode = { price: NaN, level: { price: NaN, quantity: 0, timestamp: 0 }, next: new Array(MAX_HEIGHT).fill(null) };
+  let height = 1;
+  let size = 0;
+
+  // Fills `path` with the last node before `price` on every lane and returns the node at `price`, if any
+  const search = (price: number, path?: LadderNode[]) => {
+    let node = head;
+    for (let lane = height - 1; lane >= 0; lane--) {
+      let next = node.next[lane];
+      while (next && compare(next.price, price) < 0) {
+        node = next;
+        next = node.next[lane];
+      }
+      if (path) path[lane] = node;
+    }
+    const candidate = node.next[0];
+    return candidate && candidate.price === price ? candidate : null;
+  };
+
+  const remove = (price: number) => {
+    const path: LadderNode[] = [];
+    const found = search(price, path);
+    if (!found) return false;
+
+    for (let lane = 0; lane < found.next.length; lane++) {
+      if (path[lane].next[lane] === found) path[lane].next[lane] = found.next[lane];
+    }
+    while (height > 1 && !head.next[height - 1]) height--;
+    size--;
+    return true;
+  };
+
+  return {
+    side,
+
+    get size() {
+      return size;
+    },
+
+    get: (price: number) => search(price)?.level,
+
+    set: (price: number, quantity: number, timestamp: number) => {
+      if (quantity === 0) {
+        remove(price);
+        return;
+      }
+
+      const level = { price, quantity, timestamp };
+      const path: LadderNode[] = [];
+      const found = search(price, path);
+      if (found) {
+        found.level = level;
+        return;
+      }
+
+      const nodeHeight = randomHeight();
+      for (let lane = height; lane < nodeHeight; lane++) path[lane] = head;
+      height = Math.max(height, nodeHeight);
+
+      const node: LadderNode = { price, level, next: new Array(nodeHeight) };
+      for (let lane = 0; lane < nodeHeight; lane++) {
+        node.next[lane] = path[lane].next[lane];
+        path[lane].next[lane] = node;
+      }
+      size++;
+    },
+
+    delete: remove,
+
+    clear: () => {
+      head = { ...head, next: new Array(MAX_HEIGHT).fill(null) };
+      height = 1;
+      size = 0;
+    },
+
+    best: () => head.next[0]?.level,
+
+    top: (n: number = Infinity) => {
+      const levels: OrderbookLevel[] = [];
+      let node = head.next[0];
+      while (node && levels.length < n) {
+        levels.push(node.level);
+        node = node.next[0];
+      }
+      return levels;
+    }
+  };
+};
@@ -0,0 +1,117 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Trade } from '@/types/orderbook';
+import { venueAdapters } from '@/lib/venues';
+import { resetClock, setClock } from '@/lib/clock';
+import { OrderBook } from './book';
+import { createReplayFeed } from './venueFeed';
+import { RecordedEvent, RecordingHeader, parseRecording, serializeEvent, serializeHeader } from './recording';
+
+const header: RecordingHeader = {
+  type: 'header',
+  version: 1,
+  symbol: 'BTCUSDT',
+  venueIds: ['binance'],
+  startedAt: 1000,
+  endedAt: 2000
+};
+
+const depthUpdate = (first: number, last: number, bids: [string, string][], asks: [string, string][] = []) =>
+  JSON.stringify({ stream: 'btcusdt@depth', data: { e: 'depthUpdate', U: first, u: last, b: bids, a: asks } });
+
+const trade = (price: string, quantity: string) =>
+  JSON.stringify({ stream: 'btcusdt@trade', data: { e: 'trade', p: price, q: quantity, m: false } });
+
+// Written out of order on purpose: parsing sorts by time
+const events: RecordedEvent[] = [
+  { time: 1000, venueId: 'binance', record: { kind: 'open' } },
+  { time: 1100, venueId: 'binance', record: { kind: 'message', raw: depthUpdate(9, 11, [['100', '1']]) } },
+  { time: 1200, venueId: 'binance', record: { kind: 'snapshot', snapshot: { bids: [[99, 2]], asks: [[101, 3]], lastUpdateId: 10 } } },
+  { time: 1400, venueId: 'binance', record: { kind: 'message', raw: trade('101', '0.5') } },
+  { time: 1300, venueId: 'binance', record: { kind: 'message', raw: depthUpdate(12, 12, [['99', '0']], [['102', '1']]) } }
+];
+
+const recordingText = (lines: string[]) => [...lines, ''].join('\n');
+
+describe('recordings', () => {
+  afterEach(resetClock);
+
+  it('replays to the recorded book and trade times on the virtual clock', () => {
+    const recording = parseRecording(recordingText([serializeHeader(header), ...events.map(serializeEvent)]));
+    assert.deepEqual(recording.header, header);
+    assert.deepEqual(recording.events.map(event => event.time), [1000, 1100, 1200, 1300, 1400]);
+
+    let position = recording.header.startedAt;
+    setClock(() => position);
+
+    let book: OrderBook | null = null;
+    const trades: Trade[] = [];
+    const feed = createReplayFeed(venueAdapters.binance, {
+      onBookChange: next => {
+        book = next;
+      },
+      onStatusChange: () => {},
+      onTrades: next => trades.push(...next)
+    });
+    recording.events.forEach(event => {
+      position = event.time;
+      feed.apply(event.record);
+    });
+    feed.close();
+
+    const replayed = book as OrderBook | null;
+    assert.ok(replayed);
+    assert.equal(replayed.lastUpdateId, 12);
+    assert.deepEqual(replayed.bids.top().map(level => [level.price, level.quantity, level.timestamp]), [[100, 1, 1100]]);
+    assert.deepEqual(replayed.asks.top().map(level => [level.price, level.quantity, level.timestamp]), [[101, 3, 1200], [102, 1, 1300]]);
+    assert.deepEqual(trades, [{ price: 101, quantity: 0.5, side: 'buy', timestamp: 1400 }]);
+  });
+
+  it('rejects a header the worker could not replay', () => {
+    const withHeader = (patch: object) => recordingText([JSON.stringify({ ...header, ...patch })]);
+
+    assert.throws(() => parseRecording(''), /empty/);
+    assert.throws(() => parseRecording(withHeader({ version: 2 })), /Not an order book recording/);
+    assert.throws(() => parseRecording(withHeader({ venueIds: ['nowhere'] })), /unknown venue/);
+    assert.throws(() => parseRecording(withHeader({ venueIds: 'binance' })), /unknown venue/);
+    assert.throws(() => parseRecording(withHeader({ startedAt: 'soon' })), /time range/);
+    assert.throws(() => parseRecording(withHeader({ symbol: 'btc/usdt?x=1' })), /symbol/);
+  });
+
+  it('rejects events for venues outside the header or of an unknown kind', () => {
+    const withEvent = (event: object) => recordingText([serializeHeader(header), JSON.stringify(event)]);
+
+    assert.throws(() => parseRecording(withEvent({ t: 1000, v: 'okx', kind: 'open' })), /line 2/);
+    assert.throws(() => parseRecording(withEvent({ t: 1000, v: 'binance', kind: 'teleport' })), /line 2/);
+    assert.throws(() => parseRecording(withEvent({ t: 1000, v: 'binance', kind: 'message' })), /line 2/);
+  });
+
+  it('rejects malformed snapshots, unreadable payloads and broken lines', () => {
+    const withEvent = (event: object) => recordingText([serializeHeader(header), JSON.stringify(event)]);
+    const snapshotEvent = (snapshot: unknown) => withEvent({ t: 1000, v: 'binance', kind: 'snapshot', snapshot });
+
+    assert.throws(() => parseRecording(snapshotEvent({})), /line 2/);
+    assert.throws(() => parseRecording(snapshotEvent({ bids: [[99, 'lots']], asks: [], lastUpdateId: 1 })), /line 2/);
+    assert.throws(() => parseRecording(snapshotEvent({ bids: [99, 1], asks: [], lastUpdateId: 1 })), /line 2/);
+    assert.throws(() => parseRecording(snapshotEvent({ bids: [], asks: [], lastUpdateId: '1' })), /line 2/);
+    assert.throws(() => parseRecording(withEvent({ t: 1000, v: 'binance', kind: 'message', raw: 'not json' })), /line 2/);
+    assert.throws(() => parseRecording(recordingText([serializeHeader(header), '{"t": 1000,'])), /line 2/);
+  });
+
+  it('resyncs instead of throwing on a payload it cannot read', () => {
+    let resyncCount = 0;
+    const feed = createReplayFeed(venueAdapters.binance, {
+      onBookChange: () => {},
+      onStatusChange: status => {
+        resyncCount = status.resyncCount;
+      },
+      onTrades: () => {}
+    });
+
+    feed.apply({ kind: 'open' });
+    feed.apply({ kind: 'snapshot', snapshot: { bids: [[99, 1]], asks: [[101, 1]], lastUpdateId: 10 } });
+    assert.doesNotThrow(() => feed.apply({ kind: 'message', raw: 'not json' }));
+    assert.doesNotThrow(() => feed.apply({ kind: 'message', raw: 'null' }));
+    assert.equal(resyncCount, 2);
+  });
+});
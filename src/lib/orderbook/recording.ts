@@ -0,0 +1,124 @@
+import { DepthSnapshot, isValidSymbol, venueAdapters } from '@/lib/venues';
+
+// Session recordings: NDJSON with a header line followed by one line per feed event.
+// Events are the raw stream payloads and REST snapshots, exactly as the feed saw them,
+// so a replay rebuilds the books through the same adapters and sync.
+
+export type FeedRecord =
+  // The socket (re)opened; the sync starts over and waits for a snapshot
+  | { kind: 'open' }
+  | { kind: 'message'; raw: string }
+  // REST snapshot, or the current book of a venue that was already live when recording started
+  | { kind: 'snapshot'; snapshot: DepthSnapshot }
+  | { kind: 'close' };
+
+export interface RecordedEvent {
+  time: number;
+  venueId: string;
+  record: FeedRecord;
+}
+
+export interface RecordingHeader {
+  type: 'header';
+  version: 1;
+  symbol: string;
+  venueIds: string[];
+  startedAt: number;
+  endedAt: number;
+}
+
+export interface Recording {
+  header: RecordingHeader;
+  // Sorted by time
+  events: RecordedEvent[];
+}
+
+export const serializeEvent = ({ time, venueId, record }: RecordedEvent) =>
+  JSON.stringify({ t: time, v: venueId, ...record });
+
+export const serializeHeader = (header: RecordingHeader) => JSON.stringify(header);
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+// [price, quantity] pairs, as in a REST snapshot
+const isLevels = (levels: unknown) =>
+  Array.isArray(levels) && levels.every(level => Array.isArray(level) && Number.isFinite(level[0]) && Number.isFinite(level[1]));
+
+const isSnapshot = (snapshot: unknown) => {
+  const { bids, asks, lastUpdateId } = (snapshot ?? {}) as Partial<DepthSnapshot>;
+  return isLevels(bids) && isLevels(asks) && Number.isFinite(lastUpdateId);
+};
+
+const isFeedRecord = (record: { kind?: unknown; raw?: unknown; snapshot?: unknown }) => {
+  switch (record.kind) {
+    case 'open':
+    case 'close':
+      return true;
+    case 'message':
+      // Recorded payloads are the venue's JSON; anything else would fail in the feed mid-replay
+      return typeof record.raw === 'string' && parseJson(record.raw) !== undefined;
+    case 'snapshot':
+      return isSnapshot(record.snapshot);
+    default:
+      return false;
+  }
+};
+
+// Everything a replay relies on is checked here, before the worker leaves its live feeds
+const parseHeader = (line: string): RecordingHeader => {
+  const header = JSON.parse(line) as RecordingHeader;
+  if (header === null || typeof header !== 'object' || header.type !== 'header' || header.version !== 1) {
+    throw new Error('Not an order book recording');
+  }
+  if (typeof header.symbol !== 'string' || !isValidSymbol(header.symbol)) throw new Error('Recording has no valid symbol');
+  if (!Array.isArray(header.venueIds) || header.venueIds.some(venueId => typeof venueId !== 'string' || !(venueId in venueAdapters))) {
+    throw new Error('Recording lists an unknown venue');
+  }
+  if (!Number.isFinite(header.startedAt) || !Number.isFinite(header.endedAt) || header.endedAt < header.startedAt) {
+    throw new Error('Recording has no valid time range');
+  }
+  return header;
+};
+
+export const parseRecording = (text: string): Recording => {
+  const lines = text.split('\n').filter(line => line.trim() !== '');
+  if (lines.length === 0) throw new Error('Recording is empty');
+
+  const header = parseHeader(lines[0]);
+  const events = lines.slice(1).map((line, index): RecordedEvent => {
+    const { t, v, ...record } = (parseJson(line) ?? {}) as { t?: number; v?: string; kind?: unknown };
+    if (typeof t !== 'number' || !Number.isFinite(t) || typeof v !== 'string' || !header.venueIds.includes(v) || !isFeedRecord(record)) {
+      throw new Error(`Malformed event on line ${index + 2}`);
+    }
+    return { time: t, venueId: v, record: record as FeedRecord };
+  });
+
+  // Stable, so events stamped in the same millisecond keep their order
+  events.sort((a, b) => a.time - b.time);
+  return { header, events };
+};
+
+// gzip streams start with these two bytes
+const isGzip = (bytes: Uint8Array) => bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+export const readRecordingFile = async (file: Blob) => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!isGzip(bytes)) return new TextDecoder().decode(bytes);
+
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+};
+
+export const recordingBlob = async (text: string, gzip: boolean) => {
+  const blob = new Blob([text], { type: 'application/x-ndjson' });
+  if (!gzip) return blob;
+
+  const stream = blob.stream().pipeThrough(new CompressionStream('gzip'));
+  return new Blob([await new Response(stream).arrayBuffer()], { type: 'application/gzip' });
+};
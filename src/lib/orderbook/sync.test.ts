@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DepthMessage, venueAdapters } from '@/lib/venues';
+import { createDepthSync } from './sync';
+
+// Binance rules: the first update after a snapshot straddles it, later ones follow on directly
+const adapter = venueAdapters.binance;
+
+const update = (firstUpdateId: number, lastUpdateId: number): DepthMessage => ({
+  type: 'update',
+  bids: [[100, firstUpdateId]],
+  asks: [],
+  firstUpdateId,
+  lastUpdateId,
+  timestamp: 0
+});
+
+const snapshot = (lastUpdateId: number) => ({ bids: [], asks: [], lastUpdateId });
+
+describe('createDepthSync', () => {
+  it('buffers until a snapshot, then drops what the snapshot covers', () => {
+    const sync = createDepthSync(adapter);
+    assert.deepEqual(sync.push(update(1, 5)), { status: 'buffering' });
+    assert.deepEqual(sync.push(update(6, 10)), { status: 'buffering' });
+    assert.deepEqual(sync.push(update(11, 15)), { status: 'buffering' });
+    assert.equal(sync.synced, false);
+
+    const result = sync.applySnapshot(snapshot(8));
+    assert.equal(result.status, 'apply');
+    assert.deepEqual(
+      result.status === 'apply' && result.messages.map(message => [message.type, message.lastUpdateId]),
+      [['snapshot', 8], ['update', 10], ['update', 15]]
+    );
+    assert.equal(sync.synced, true);
+  });
+
+  it('applies updates that continue the sequence and skips stale ones', () => {
+    const sync = createDepthSync(adapter);
+    sync.applySnapshot(snapshot(10));
+
+    assert.deepEqual(sync.push(update(9, 12)), { status: 'apply', messages: [update(9, 12)] });
+    assert.deepEqual(sync.push(update(5, 12)), { status: 'apply', messages: [] });
+    assert.deepEqual(sync.push(update(13, 14)), { status: 'apply', messages: [update(13, 14)] });
+  });
+
+  it('reports a gap and waits for a new snapshot', () => {
+    const sync = createDepthSync(adapter);
+    sync.applySnapshot(snapshot(10));
+    sync.push(update(11, 12));
+
+    assert.deepEqual(sync.push(update(14, 15)), { status: 'gap', lastUpdateId: 12, message: update(14, 15) });
+    assert.equal(sync.synced, false);
+    assert.deepEqual(sync.push(update(16, 17)), { status: 'buffering' });
+  });
+
+  it('rejects a first update that does not straddle the snapshot', () => {
+    const sync = createDepthSync(adapter);
+    sync.push(update(20, 25));
+
+    const result = sync.applySnapshot(snapshot(10));
+    assert.equal(result.status, 'gap');
+    assert.equal(sync.synced, false);
+  });
+
+  it('restarts the sequence on an in-band snapshot', () => {
+    const sync = createDepthSync(adapter);
+    const inBand: DepthMessage = { ...update(50, 50), type: 'snapshot' };
+
+    assert.deepEqual(sync.push(inBand), { status: 'apply', messages: [inBand] });
+    assert.deepEqual(sync.push(update(51, 52)), { status: 'apply', messages: [update(51, 52)] });
+  });
+});
@@ -0,0 +1,88 @@
+import { DepthMessage, DepthSnapshot, VenueAdapter } from '@/lib/venues';
+import { now } from '@/lib/clock';
+
+export type SyncResult =
+  // Messages to apply to the book, in order; a 'snapshot' message replaces it
+  | { status: 'apply'; messages: DepthMessage[] }
+  // Waiting for a snapshot, the message was buffered
+  | { status: 'buffering' }
+  // Sequence broke: the book is no longer trustworthy and must be re-snapshotted
+  | { status: 'gap'; lastUpdateId: number; message: DepthMessage };
+
+export interface DepthSync {
+  push: (message: DepthMessage) => SyncResult;
+  applySnapshot: (snapshot: DepthSnapshot) => SyncResult;
+  reset: () => void;
+  readonly synced: boolean;
+}
+
+// Events kept while a snapshot is in flight; older ones are dropped and will surface as a gap
+const MAX_BUFFERED = 2000;
+
+// Implements the venue-agnostic part of the snapshot + diff procedure: buffer stream events
+// until a snapshot arrives, drop what the snapshot already covers, then require every
+// update to continue the sequence according to the adapter's rules.
+export const createDepthSync = (adapter: VenueAdapter): DepthSync => {
+  let buffer: DepthMessage[] = [];
+  let lastUpdateId: number | null = null;
+  let firstAfterSnapshot = true;
+
+  const drain = (messages: DepthMessage[], applied: DepthMessage[] = []): SyncResult => {
+    for (const message of messages) {
+      if (lastUpdateId === null) break;
+      if (adapter.isStale(message, lastUpdateId)) continue;
+
+      if (!adapter.continuesSequence(message, lastUpdateId, firstAfterSnapshot)) {
+        const result: SyncResult = { status: 'gap', lastUpdateId, message };
+        buffer = [];
+        lastUpdateId = null;
+        return result;
+      }
+
+      applied.push(message);
+      lastUpdateId = message.lastUpdateId;
+      firstAfterSnapshot = false;
+    }
+    return { status: 'apply', messages: applied };
+  };
+
+  const startFrom = (snapshotUpdateId: number) => {
+    lastUpdateId = snapshotUpdateId;
+    firstAfterSnapshot = true;
+  };
+
+  return {
+    push: (message: DepthMessage) => {
+      // Venues that stream their own snapshots restart the sequence in-band
+      if (message.type === 'snapshot') {
+        buffer = [];
+        startFrom(message.lastUpdateId);
+        return { status: 'apply', messages: [message] };
+      }
+
+      if (lastUpdateId === null) {
+        buffer.push(message);
+        if (buffer.length > MAX_BUFFERED) buffer.shift();
+        return { status: 'buffering' };
+      }
+
+      return drain([message]);
+    },
+
+    applySnapshot: (snapshot: DepthSnapshot) => {
+      const pending = buffer;
+      buffer = [];
+      startFrom(snapshot.lastUpdateId);
+      return drain(pending, [{ type: 'snapshot', ...snapshot, firstUpdateId: snapshot.lastUpdateId, timestamp: now() }]);
+    },
+
+    reset: () => {
+      buffer = [];
+      lastUpdateId = null;
+    },
+
+    get synced() {
+      return lastUpdateId !== null;
+    }
+  };
+};
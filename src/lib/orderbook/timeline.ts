@@ -0,0 +1,28 @@
+import { HistoricalData, OrderbookData, Trade } from '@/types/orderbook';
+
+// Views of buffered history as it stood at an earlier instant, for scrubbing back in time
+
+// Number of entries stamped at or before `time`; entries must be in time order
+const countUntil = (entries: { timestamp: number }[], time: number) => {
+  let low = 0;
+  let high = entries.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (entries[middle].timestamp <= time) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+};
+
+export const historyUntil = (history: HistoricalData[], time: number) => history.slice(0, countUntil(history, time));
+
+export const tradesUntil = (trades: Trade[], time: number) => trades.slice(0, countUntil(trades, time));
+
+// The latest sample at or before `time` stands in for the book; empty before the first sample
+export const bookAt = (history: HistoricalData[], time: number): OrderbookData => {
+  const sample = history[countUntil(history, time) - 1];
+  return sample ? { bids: sample.bids, asks: sample.asks, lastUpdateId: 0 } : { bids: [], asks: [], lastUpdateId: 0 };
+};
+
+// Index of the sample the cursor sits on, clamped to the buffered range
+export const sampleIndexAt = (history: HistoricalData[], time: number) => Math.max(0, countUntil(history, time) - 1);
@@ -0,0 +1,185 @@
+import { HistoricalData, OrderbookLevel, Trade } from '@/types/orderbook';
+
+// What happened to one price level between two consecutive history samples.
+// after = before + added - executed - cancelled, with executed taken from the trade stream.
+export interface DepthChange {
+  timestamp: number;
+  side: 'bid' | 'ask';
+  price: number;
+  before: number;
+  after: number;
+  added: number;
+  executed: number;
+  cancelled: number;
+}
+
+export interface FlowHintSettings {
+  // A spoof candidate adds at least this multiple of the median level size...
+  spoofSizeMultiple: number;
+  // ...and pulls it again, mostly untraded, this many times at one price
+  spoofMinCycles: number;
+  // An iceberg trades at least this multiple of the most it ever displayed...
+  icebergMultiple: number;
+  // ...while being topped up this many times
+  icebergMinRefills: number;
+}
+
+export const DEFAULT_FLOW_HINTS: FlowHintSettings = {
+  spoofSizeMultiple: 5,
+  spoofMinCycles: 2,
+  icebergMultiple: 2,
+  icebergMinRefills: 2
+};
+
+export interface FlowHint {
+  kind: 'spoof' | 'iceberg';
+  side: 'bid' | 'ask';
+  price: number;
+  // Add/pull cycles for spoofs, refills for icebergs
+  count: number;
+  // Size pulled for spoofs, size executed for icebergs
+  volume: number;
+  firstTime: number;
+  lastTime: number;
+}
+
+export interface FlowSummary {
+  executed: { bids: number; asks: number };
+  cancelled: { bids: number; asks: number };
+}
+
+const toMap = (levels: OrderbookLevel[]) => new Map(levels.map(level => [level.price, level.quantity]));
+
+// Sell aggressors hit bids, buy aggressors lift asks
+const tradedVolume = (trades: Trade[]) => {
+  const bids = new Map<number, number>();
+  const asks = new Map<number, number>();
+  trades.forEach(trade => {
+    const target = trade.side === 'sell' ? bids : asks;
+    target.set(trade.price, (target.get(trade.price) ?? 0) + trade.quantity);
+  });
+  return { bids, asks };
+};
+
+// Splits every level change between consecutive samples into added, executed and cancelled size.
+// Levels outside the depth both samples cover are skipped: falling off the sampled depth is not a cancel.
+export const classifyDepthChanges = (historicalData: HistoricalData[], trades: Trade[]): DepthChange[] => {
+  const changes: DepthChange[] = [];
+  // Trades arrive in time order; only the span of each interval is scanned
+  let tradeStart = 0;
+
+  for (let index = 1; index < historicalData.length; index++) {
+    const previous = historicalData[index - 1];
+    const current = historicalData[index];
+    while (tradeStart < trades.length && trades[tradeStart].timestamp <= previous.timestamp) tradeStart++;
+    let tradeEnd = tradeStart;
+    while (tradeEnd < trades.length && trades[tradeEnd].timestamp <= current.timestamp) tradeEnd++;
+    const traded = tradedVolume(trades.slice(tradeStart, tradeEnd));
+
+    const compare = (side: 'bid' | 'ask') => {
+      const before = side === 'bid' ? previous.bids : previous.asks;
+      const after = side === 'bid' ? current.bids : current.asks;
+      if (before.length === 0 || after.length === 0) return;
+
+      // Deepest price both samples still cover
+      const edge = side === 'bid'
+        ? Math.max(before[before.length - 1].price, after[after.length - 1].price)
+        : Math.min(before[before.length - 1].price, after[after.length - 1].price);
+      const inside = (price: number) => (side === 'bid' ? price >= edge : price <= edge);
+
+      const beforeMap = toMap(before);
+      const afterMap = toMap(after);
+      const tradedMap = side === 'bid' ? traded.bids : traded.asks;
+      const prices = new Set([...beforeMap.keys(), ...afterMap.keys()]);
+
+      prices.forEach(price => {
+        if (!inside(price)) return;
+        const quantityBefore = beforeMap.get(price) ?? 0;
+        const quantityAfter = afterMap.get(price) ?? 0;
+        const executed = tradedMap.get(price) ?? 0;
+        if (quantityAfter === quantityBefore && executed === 0) return;
+        // Net of what was added and cancelled in between; only the sign is knowable
+        const rest = quantityAfter - quantityBefore + executed;
+
+        changes.push({
+          timestamp: current.timestamp,
+          side,
+          price,
+          before: quantityBefore,
+          after: quantityAfter,
+          added: Math.max(0, rest),
+          executed,
+          cancelled: Math.max(0, -rest)
+        });
+      });
+    };
+
+    compare('bid');
+    compare('ask');
+  }
+
+  return changes;
+};
+
+export const summarizeFlow = (changes: DepthChange[]): FlowSummary => {
+  const summary: FlowSummary = { executed: { bids: 0, asks: 0 }, cancelled: { bids: 0, asks: 0 } };
+  changes.forEach(change => {
+    const key = change.side === 'bid' ? 'bids' : 'asks';
+    summary.executed[key] += change.executed;
+    summary.cancelled[key] += change.cancelled;
+  });
+  return summary;
+};
+
+const medianLevelSize = (historicalData: HistoricalData[]) => {
+  const latest = historicalData[historicalData.length - 1];
+  if (!latest) return 0;
+  const sizes = [...latest.bids, ...latest.asks].map(level => level.quantity).sort((a, b) => a - b);
+  return sizes[sizes.length >> 1] ?? 0;
+};
+
+// Heuristics only: they point at levels worth a closer look, not at proven intent
+export const detectFlowHints = (
+  changes: DepthChange[],
+  historicalData: HistoricalData[],
+  settings: FlowHintSettings
+): FlowHint[] => {
+  const largeSize = medianLevelSize(historicalData) * settings.spoofSizeMultiple;
+  const perLevel = new Map<string, DepthChange[]>();
+  changes.forEach(change => {
+    const key = `${change.side}:${change.price}`;
+    if (!perLevel.has(key)) perLevel.set(key, []);
+    perLevel.get(key)!.push(change);
+  });
+
+  const hints: FlowHint[] = [];
+  perLevel.forEach(levelChanges => {
+    const { side, price } = levelChanges[0];
+    const firstTime = levelChanges[0].timestamp;
+    const lastTime = levelChanges[levelChanges.length - 1].timestamp;
+
+    // Spoofing: a large add that is later pulled with little of it traded
+    let pending = 0;
+    let cycles = 0;
+    let pulled = 0;
+    levelChanges.forEach(change => {
+      if (change.added >= largeSize && largeSize > 0) pending += change.added;
+      if (pending > 0 && change.cancelled >= pending * 0.8 && change.executed < pending * 0.1) {
+        cycles++;
+        pulled += change.cancelled;
+        pending = 0;
+      }
+    });
+    if (cycles >= settings.spoofMinCycles) hints.push({ kind: 'spoof', side, price, count: cycles, volume: pulled, firstTime, lastTime });
+
+    // Icebergs: far more trades at the price than it ever showed, with the size coming back after fills
+    const executed = levelChanges.reduce((sum, change) => sum + change.executed, 0);
+    const maxDisplayed = Math.max(...levelChanges.map(change => Math.max(change.before, change.after)));
+    const refills = levelChanges.filter(change => change.executed > 0 && change.added > 0).length;
+    if (refills >= settings.icebergMinRefills && maxDisplayed > 0 && executed >= maxDisplayed * settings.icebergMultiple) {
+      hints.push({ kind: 'iceberg', side, price, count: refills, volume: executed, firstTime, lastTime });
+    }
+  });
+
+  return hints;
+};
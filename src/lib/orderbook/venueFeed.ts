@@ -0,0 +1,242 @@
+import { Trade } from '@/types/orderbook';
+import { DepthMessage, DepthSnapshot, VenueAdapter } from '@/lib/venues';
+import { OrderBook, createOrderBook } from './book';
+import { SyncResult, createDepthSync } from './sync';
+import { FeedRecord } from './recording';
+import { DEFAULT_BACKOFF, DEFAULT_STALE_AFTER_MS, openConnection } from './connection';
+
+// connecting: first connection attempt; syncing: stream open, waiting for a consistent book;
+// live: book in sync; stale: open, but nothing received for a while; reconnecting: backing
+// off after a lost connection
+export type ConnectionState = 'connecting' | 'syncing' | 'live' | 'stale' | 'reconnecting';
+
+export interface VenueFeedStatus {
+  connected: boolean;
+  // True once a snapshot is in place and every update since has continued the sequence
+  synced: boolean;
+  state: ConnectionState;
+  // Consecutive reconnect attempts since the book was last live
+  attempt: number;
+  resyncCount: number;
+  error: string | null;
+}
+
+export interface VenueFeedHandlers {
+  // Called after a snapshot (reset = true) or an applied update
+  onBookChange: (book: OrderBook, timestamp: number, reset: boolean) => void;
+  onStatusChange: (status: VenueFeedStatus) => void;
+  onTrades: (trades: Trade[]) => void;
+  // Every event the feed consumed, in order, for session recordings
+  onRecord?: (record: FeedRecord) => void;
+}
+
+export const createVenueFeedStatus = (): VenueFeedStatus => ({
+  connected: false,
+  synced: false,
+  state: 'connecting',
+  attempt: 0,
+  resyncCount: 0,
+  error: null
+});
+
+interface FeedTransport {
+  // The sequence broke; the transport gets a fresh snapshot however its venue provides one
+  onGap: () => void;
+  onLive?: () => void;
+}
+
+// Book building shared by live and replayed feeds: raw stream payloads and snapshots
+// go in, book changes and status come out. The transport decides how a gap is repaired.
+const createFeedCore = (adapter: VenueAdapter, handlers: VenueFeedHandlers, transport: FeedTransport) => {
+  let closed = false;
+  let stale = false;
+  let status = createVenueFeedStatus();
+  const book = createOrderBook();
+  const sync = createDepthSync(adapter);
+
+  const stateOf = (next: VenueFeedStatus): ConnectionState => {
+    if (!next.connected) return next.attempt > 0 ? 'reconnecting' : 'connecting';
+    if (stale) return 'stale';
+    return next.synced ? 'live' : 'syncing';
+  };
+
+  const setStatus = (patch: Partial<VenueFeedStatus>) => {
+    const next = { ...status, ...patch };
+    status = { ...next, state: stateOf(next) };
+    if (!closed) handlers.onStatusChange(status);
+  };
+
+  const setStale = (next: boolean) => {
+    if (stale === next) return;
+    stale = next;
+    setStatus({});
+  };
+
+  const resetOrderbook = (message: DepthMessage) => {
+    book.applySnapshot(message);
+    setStatus({ synced: true, attempt: 0 });
+    transport.onLive?.();
+    handlers.onBookChange(book, message.timestamp, true);
+  };
+
+  const applyUpdate = (message: DepthMessage) => {
+    book.applyUpdate(message);
+    handlers.onBookChange(book, message.timestamp, false);
+  };
+
+  // Surfaces as a resync in the status; the transport fetches a fresh book
+  const resync = () => {
+    setStatus({ synced: false, resyncCount: status.resyncCount + 1 });
+    transport.onGap();
+  };
+
+  const handleSyncResult = (result: SyncResult) => {
+    if (result.status === 'gap') {
+      resync();
+      return;
+    }
+
+    if (result.status === 'apply') {
+      result.messages.forEach(message => message.type === 'snapshot' ? resetOrderbook(message) : applyUpdate(message));
+    }
+  };
+
+  return {
+    setStatus,
+    setStale,
+
+    // Events buffer from here on, so the snapshot is guaranteed to overlap the stream
+    open: () => {
+      handlers.onRecord?.({ kind: 'open' });
+      stale = false;
+      setStatus({ connected: true, error: null });
+      sync.reset();
+    },
+
+    message: (raw: string) => {
+      handlers.onRecord?.({ kind: 'message', raw });
+      setStale(false);
+
+      let message: DepthMessage | null;
+      let trades: Trade[] | null = null;
+      try {
+        const payload = JSON.parse(raw);
+        message = adapter.parseMessage(payload);
+        // Trades need no sequencing; they only annotate the book
+        if (!message) trades = adapter.parseTrades(payload);
+      } catch {
+        // A payload we can't read may have been a depth update, so the book can't be trusted
+        sync.reset();
+        resync();
+        return;
+      }
+
+      if (message) handleSyncResult(sync.push(message));
+      else if (trades && trades.length > 0) handlers.onTrades(trades);
+    },
+
+    snapshot: (snapshot: DepthSnapshot) => {
+      handlers.onRecord?.({ kind: 'snapshot', snapshot });
+      handleSyncResult(sync.applySnapshot(snapshot));
+    },
+
+    close: () => {
+      handlers.onRecord?.({ kind: 'close' });
+      stale = false;
+      sync.reset();
+      setStatus({ connected: false, synced: false });
+    },
+
+    // Stops all callbacks; used when the feed is torn down
+    dispose: () => {
+      closed = true;
+    }
+  };
+};
+
+// Runs one venue's snapshot + stream for a symbol. Returns a function that tears it down;
+// after that no socket, timer or snapshot request of this feed touches the handlers again.
+export const openVenueFeed = (adapter: VenueAdapter, symbol: string, handlers: VenueFeedHandlers) => {
+  let snapshotRequest = 0;
+  let closed = false;
+
+  const requestSnapshot = async () => {
+    // Venues without a REST snapshot send one over the stream instead
+    if (!adapter.fetchSnapshot) return;
+
+    // Only the latest request counts; an older one may land after a newer resync started
+    const request = ++snapshotRequest;
+    try {
+      const snapshot = await adapter.fetchSnapshot(symbol);
+      if (!closed && request === snapshotRequest) core.snapshot(snapshot);
+    } catch (error) {
+      if (closed || request !== snapshotRequest) return;
+      core.setStatus({ error: `Failed to initialize orderbook: ${error instanceof Error ? error.message : error}` });
+    }
+  };
+
+  const resync = () => {
+    if (adapter.fetchSnapshot) {
+      // The stream keeps running and buffers into the sync while the snapshot loads
+      requestSnapshot();
+    } else {
+      // Stream-snapshot venues resend the book when we subscribe again
+      connection.restart(true);
+    }
+  };
+
+  const core = createFeedCore(adapter, handlers, { onGap: resync, onLive: () => connection.markHealthy() });
+
+  const connection = openConnection(
+    () => adapter.streamUrl(symbol),
+    {
+      onOpen: send => {
+        adapter.subscribeMessages(symbol).forEach(send);
+        core.open();
+        requestSnapshot();
+      },
+      onMessage: core.message,
+      onStale: () => core.setStale(true),
+      onClose: () => {
+        // A snapshot still in flight belongs to the old stream
+        snapshotRequest++;
+        core.close();
+      },
+      onReconnecting: attempt => core.setStatus({ attempt }),
+      onError: () => core.setStatus({ error: 'WebSocket connection error' })
+    },
+    { backoff: DEFAULT_BACKOFF, staleAfterMs: DEFAULT_STALE_AFTER_MS, heartbeat: adapter.heartbeat }
+  );
+
+  return () => {
+    closed = true;
+    core.dispose();
+    connection.close();
+  };
+};
+
+// Runs one venue's book from recorded feed events. A gap can't be repaired by asking the
+// venue again, so the book stays unsynced until the recording's own resync snapshot arrives.
+export const createReplayFeed = (adapter: VenueAdapter, handlers: VenueFeedHandlers) => {
+  const core = createFeedCore(adapter, { ...handlers, onRecord: undefined }, { onGap: () => {} });
+
+  return {
+    apply: (record: FeedRecord) => {
+      switch (record.kind) {
+        case 'open':
+          core.open();
+          break;
+        case 'message':
+          core.message(record.raw);
+          break;
+        case 'snapshot':
+          core.snapshot(record.snapshot);
+          break;
+        case 'close':
+          core.close();
+          break;
+      }
+    },
+    close: core.dispose
+  };
+};
@@ -0,0 +1,96 @@
+import { followsDirectly, isCoveredBy } from './sequence';
+import { Trade } from '@/types/orderbook';
+import { now } from '@/lib/clock';
+import { VenueEndpoints, resolveEndpoints } from './endpoints';
+import { InstrumentInfo } from './instruments';
+import { DepthMessage, DepthSnapshot, PriceLevelUpdate, StreamMessage, VenueAdapter } from './types';
+
+const ENDPOINTS = {
+  restUrl: 'https://api.binance.com/api/v3',
+  streamUrl: 'wss://stream.binance.com:9443/stream'
+};
+const endpoints = () => resolveEndpoints('binance', ENDPOINTS);
+
+interface BinanceSymbol {
+  symbol: string;
+  status: string;
+  baseAsset: string;
+  quoteAsset: string;
+  filters: { filterType: string; tickSize?: string; stepSize?: string }[];
+}
+
+const parseLevels = (levels: [string, string][] = []): PriceLevelUpdate[] =>
+  levels.map(([price, quantity]) => [parseFloat(price), parseFloat(quantity)]);
+
+export const binanceAdapter: VenueAdapter = {
+  id: 'binance',
+  name: 'Binance',
+
+  fetchInstruments: async (source?: VenueEndpoints): Promise<InstrumentInfo[]> => {
+    const response = await fetch(`${(source ?? endpoints()).restUrl}/exchangeInfo?permissions=SPOT`);
+    if (!response.ok) throw new Error(`Binance exchange info failed: ${response.status}`);
+    const data = await response.json();
+
+    return (data.symbols as BinanceSymbol[])
+      .filter(symbol => symbol.status === 'TRADING')
+      .map(symbol => {
+        const filter = (type: string) => symbol.filters.find(candidate => candidate.filterType === type);
+        return {
+          symbol: symbol.symbol,
+          baseAsset: symbol.baseAsset,
+          quoteAsset: symbol.quoteAsset,
+          tickSize: parseFloat(filter('PRICE_FILTER')?.tickSize ?? '0.01'),
+          lotSize: parseFloat(filter('LOT_SIZE')?.stepSize ?? '0.00000001')
+        };
+      });
+  },
+
+  fetchSnapshot: async (symbol: string): Promise<DepthSnapshot> => {
+    const response = await fetch(`${endpoints().restUrl}/depth?symbol=${encodeURIComponent(symbol)}&limit=100`);
+    if (!response.ok) throw new Error(`Binance depth snapshot failed: ${response.status}`);
+    const data = await response.json();
+
+    return {
+      bids: parseLevels(data.bids),
+      asks: parseLevels(data.asks),
+      lastUpdateId: data.lastUpdateId
+    };
+  },
+
+  // Combined stream: depth diffs and trades on one socket, each wrapped as { stream, data }
+  streamUrl: (symbol: string) => {
+    const stream = encodeURIComponent(symbol.toLowerCase());
+    return `${endpoints().streamUrl}?streams=${stream}@depth/${stream}@trade`;
+  },
+
+  subscribeMessages: () => [],
+
+  parseMessage: ({ data }: StreamMessage): DepthMessage | null => {
+    if (data?.e !== 'depthUpdate') return null;
+
+    return {
+      type: 'update',
+      bids: parseLevels(data.b),
+      asks: parseLevels(data.a),
+      firstUpdateId: data.U,
+      lastUpdateId: data.u,
+      timestamp: now()
+    };
+  },
+
+  parseTrades: ({ data }: StreamMessage): Trade[] | null => {
+    if (data?.e !== 'trade') return null;
+
+    // m: the buyer was the maker, so the seller was the aggressor
+    return [{ price: parseFloat(data.p), quantity: parseFloat(data.q), side: data.m ? 'sell' : 'buy', timestamp: now() }];
+  },
+
+  isStale: isCoveredBy,
+
+  // The first event after a REST snapshot must straddle it (U <= lastUpdateId + 1 <= u),
+  // every later one must start right after the previous one (U == previous u + 1)
+  continuesSequence: (message: DepthMessage, lastUpdateId: number, firstAfterSnapshot: boolean) =>
+    firstAfterSnapshot
+      ? message.firstUpdateId <= lastUpdateId + 1 && message.lastUpdateId >= lastUpdateId + 1
+      : followsDirectly(message, lastUpdateId)
+};
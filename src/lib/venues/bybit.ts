@@ -0,0 +1,58 @@
+import { followsDirectly, isCoveredBy } from './sequence';
+import { Trade } from '@/types/orderbook';
+import { now } from '@/lib/clock';
+import { DepthMessage, PriceLevelUpdate, StreamMessage, VenueAdapter } from './types';
+
+const STREAM_URL = 'wss://stream.bybit.com/v5/public/spot';
+const DEPTH = 50;
+
+const parseLevels = (levels: [string, string][] = []): PriceLevelUpdate[] =>
+  levels.map(([price, quantity]) => [parseFloat(price), parseFloat(quantity)]);
+
+export const bybitAdapter: VenueAdapter = {
+  id: 'bybit',
+  name: 'Bybit',
+
+  streamUrl: () => STREAM_URL,
+
+  subscribeMessages: (symbol: string) => [
+    JSON.stringify({
+      op: 'subscribe',
+      args: [`orderbook.${DEPTH}.${symbol.toUpperCase()}`, `publicTrade.${symbol.toUpperCase()}`]
+    })
+  ],
+
+  // Bybit asks for a ping at least every 20s; more often keeps quiet books from looking stale
+  heartbeat: { intervalMs: 10_000, message: JSON.stringify({ op: 'ping' }) },
+
+  parseMessage: (message: StreamMessage): DepthMessage | null => {
+    if (!message.topic?.startsWith('orderbook.') || !message.data) return null;
+
+    const { data } = message;
+    return {
+      // Bybit resets the book with u = 1 after a service restart
+      type: message.type === 'snapshot' || data.u === 1 ? 'snapshot' : 'update',
+      bids: parseLevels(data.b),
+      asks: parseLevels(data.a),
+      firstUpdateId: data.u,
+      lastUpdateId: data.u,
+      timestamp: now()
+    };
+  },
+
+  parseTrades: (message: StreamMessage): Trade[] | null => {
+    if (!message.topic?.startsWith('publicTrade.') || !message.data) return null;
+
+    // S is the taker side
+    return message.data.map((trade: { p: string; v: string; S: 'Buy' | 'Sell' }) => ({
+      price: parseFloat(trade.p),
+      quantity: parseFloat(trade.v),
+      side: trade.S === 'Buy' ? 'buy' : 'sell',
+      timestamp: now()
+    }));
+  },
+
+  isStale: isCoveredBy,
+
+  continuesSequence: followsDirectly
+};
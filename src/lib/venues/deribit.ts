@@ -0,0 +1,66 @@
+import { splitSymbol } from './symbols';
+import { followsDirectly, isCoveredBy } from './sequence';
+import { Trade } from '@/types/orderbook';
+import { now } from '@/lib/clock';
+import { DepthMessage, PriceLevelUpdate, StreamMessage, VenueAdapter } from './types';
+
+const STREAM_URL = 'wss://www.deribit.com/ws/api/v2';
+
+// Deribit levels are [action, price, amount] where action is new/change/delete
+const parseLevels = (levels: [string, number, number][] = []): PriceLevelUpdate[] =>
+  levels.map(([action, price, amount]) => [price, action === 'delete' ? 0 : amount]);
+
+const toInstrument = (symbol: string) => {
+  const { base, quote } = splitSymbol(symbol);
+  return `${base}_${quote}`;
+};
+
+export const deribitAdapter: VenueAdapter = {
+  id: 'deribit',
+  name: 'Deribit',
+
+  streamUrl: () => STREAM_URL,
+
+  subscribeMessages: (symbol: string) => [
+    JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'public/subscribe',
+      params: { channels: [`book.${toInstrument(symbol)}.100ms`, `trades.${toInstrument(symbol)}.100ms`] }
+    })
+  ],
+
+  // Any request counts as activity; public/test is the cheapest
+  heartbeat: { intervalMs: 10_000, message: JSON.stringify({ jsonrpc: '2.0', id: 0, method: 'public/test', params: {} }) },
+
+  parseMessage: (message: StreamMessage): DepthMessage | null => {
+    if (message.method !== 'subscription' || !message.params?.channel?.startsWith('book.')) return null;
+
+    const { data } = message.params;
+    return {
+      type: data.type === 'snapshot' ? 'snapshot' : 'update',
+      bids: parseLevels(data.bids),
+      asks: parseLevels(data.asks),
+      firstUpdateId: data.prev_change_id !== undefined ? data.prev_change_id + 1 : data.change_id,
+      lastUpdateId: data.change_id,
+      timestamp: now()
+    };
+  },
+
+  parseTrades: (message: StreamMessage): Trade[] | null => {
+    if (message.method !== 'subscription' || !message.params?.channel?.startsWith('trades.')) return null;
+
+    // direction is the taker's
+    return message.params.data.map((trade: { price: number; amount: number; direction: 'buy' | 'sell' }) => ({
+      price: trade.price,
+      quantity: trade.amount,
+      side: trade.direction,
+      timestamp: now()
+    }));
+  },
+
+  isStale: isCoveredBy,
+
+  // prev_change_id links each change to the previous one
+  continuesSequence: followsDirectly
+};
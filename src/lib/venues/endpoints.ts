@@ -0,0 +1,30 @@
+// Where each venue's market data comes from. Adapters ask here instead of hard-coding
+// their URLs, so a local mock exchange can stand in for a venue that speaks its protocol.
+
+export interface VenueEndpoints {
+  restUrl: string;
+  streamUrl: string;
+}
+
+let overrides: Record<string, VenueEndpoints> = {};
+
+export const setEndpointOverrides = (next: Record<string, VenueEndpoints>) => {
+  overrides = next;
+};
+
+export const resolveEndpoints = (venueId: string, defaults: VenueEndpoints) => overrides[venueId] ?? defaults;
+
+// NEXT_PUBLIC_MARKET_DATA=mock starts the app on the mock, e.g. for offline work or CI
+export const MOCK_EXCHANGE_BY_DEFAULT = process.env.NEXT_PUBLIC_MARKET_DATA === 'mock';
+export const DEFAULT_MOCK_EXCHANGE_URL = process.env.NEXT_PUBLIC_MOCK_EXCHANGE_URL ?? 'http://localhost:8787';
+
+// scripts/mock-exchange serves the Binance REST and combined-stream protocol
+export const mockExchangeEndpoints = (baseUrl: string): Record<string, VenueEndpoints> => {
+  const base = baseUrl.replace(/\/+$/, '');
+  return {
+    binance: {
+      restUrl: `${base}/api/v3`,
+      streamUrl: `${base.replace(/^http/, 'ws')}/stream`
+    }
+  };
+};
@@ -0,0 +1,23 @@
+import { binanceAdapter } from './binance';
+import { bybitAdapter } from './bybit';
+import { deribitAdapter } from './deribit';
+import { okxAdapter } from './okx';
+import { VenueAdapter } from './types';
+
+export * from './types';
+export * from './symbols';
+export * from './endpoints';
+export * from './instruments';
+
+export const venueAdapters: Record<string, VenueAdapter> = {
+  [binanceAdapter.id]: binanceAdapter,
+  [okxAdapter.id]: okxAdapter,
+  [bybitAdapter.id]: bybitAdapter,
+  [deribitAdapter.id]: deribitAdapter
+};
+
+export const getVenueAdapter = (venueId: string): VenueAdapter => {
+  const adapter = venueAdapters[venueId];
+  if (!adapter) throw new Error(`No market-data adapter for venue "${venueId}"`);
+  return adapter;
+};
@@ -0,0 +1,58 @@
+import { splitSymbol } from './symbols';
+
+// Trading rules of one symbol, as published in the venue's exchange info
+export interface InstrumentInfo {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  // Smallest price increment
+  tickSize: number;
+  // Smallest quantity increment
+  lotSize: number;
+}
+
+// Used until exchange info has loaded, or when it can't be reached at all
+export const FALLBACK_INSTRUMENTS: InstrumentInfo[] = [
+  { symbol: 'BTCUSDT', baseAsset: 'BTC', quoteAsset: 'USDT', tickSize: 0.01, lotSize: 0.00001 },
+  { symbol: 'ETHUSDT', baseAsset: 'ETH', quoteAsset: 'USDT', tickSize: 0.01, lotSize: 0.0001 },
+  { symbol: 'ADAUSDT', baseAsset: 'ADA', quoteAsset: 'USDT', tickSize: 0.0001, lotSize: 0.1 },
+  { symbol: 'DOTUSDT', baseAsset: 'DOT', quoteAsset: 'USDT', tickSize: 0.001, lotSize: 0.01 }
+];
+
+// Best guess for a symbol missing from the exchange info: the quote from its name, and a tick
+// four orders of magnitude below the price once one is known
+export const guessInstrument = (symbol: string, referencePrice?: number): InstrumentInfo => {
+  const { base, quote } = splitSymbol(symbol);
+  const tickSize = referencePrice && referencePrice > 0 ? Math.pow(10, Math.floor(Math.log10(referencePrice)) - 4) : 0.01;
+  return { symbol: symbol.toUpperCase(), baseAsset: base, quoteAsset: quote, tickSize, lotSize: 1e-8 };
+};
+
+// Decimals needed to show multiples of `step` exactly (0.01 -> 2, 0.5 -> 1, 10 -> 0)
+export const stepDecimals = (step: number) => {
+  if (!(step > 0)) return 2;
+  for (let decimals = 0; decimals < 12; decimals++) {
+    if (Math.abs(Math.round(step * 10 ** decimals) - step * 10 ** decimals) < 1e-9) return decimals;
+  }
+  return 12;
+};
+
+export const formatPrice = (price: number, instrument: InstrumentInfo) =>
+  Number.isFinite(price) ? price.toFixed(stepDecimals(instrument.tickSize)) : '-';
+
+export const formatQuantity = (quantity: number, instrument: InstrumentInfo) =>
+  Number.isFinite(quantity) ? quantity.toFixed(stepDecimals(instrument.lotSize)) : '-';
+
+// Quotes pegged to the dollar read best with a $ sign; anything else gets its asset code
+const DOLLAR_QUOTES = new Set(['USD', 'USDT', 'USDC', 'FDUSD', 'BUSD', 'TUSD', 'DAI']);
+
+// An amount in the quote asset, such as a price or a notional
+export const formatQuote = (value: number, instrument: InstrumentInfo, decimals = stepDecimals(instrument.tickSize)) => {
+  if (!Number.isFinite(value)) return '-';
+  const amount = value.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+  if (DOLLAR_QUOTES.has(instrument.quoteAsset)) return `$${amount}`;
+  return instrument.quoteAsset ? `${amount} ${instrument.quoteAsset}` : amount;
+};
+
+// Smallest multiple of the tick at or above `size`, so buckets always hold whole ticks
+export const snapToTick = (size: number, tickSize: number) =>
+  tickSize > 0 ? Math.max(1, Math.round(size / tickSize)) * tickSize : size;
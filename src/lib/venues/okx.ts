@@ -0,0 +1,67 @@
+import { splitSymbol } from './symbols';
+import { followsDirectly, isCoveredBy } from './sequence';
+import { Trade } from '@/types/orderbook';
+import { now } from '@/lib/clock';
+import { DepthMessage, PriceLevelUpdate, StreamMessage, VenueAdapter } from './types';
+
+const STREAM_URL = 'wss://ws.okx.com:8443/ws/v5/public';
+
+// OKX levels are [price, size, deprecated, orderCount]
+const parseLevels = (levels: string[][] = []): PriceLevelUpdate[] =>
+  levels.map(([price, quantity]) => [parseFloat(price), parseFloat(quantity)]);
+
+const toInstrumentId = (symbol: string) => {
+  const { base, quote } = splitSymbol(symbol);
+  return `${base}-${quote}`;
+};
+
+export const okxAdapter: VenueAdapter = {
+  id: 'okx',
+  name: 'OKX',
+
+  streamUrl: () => STREAM_URL,
+
+  subscribeMessages: (symbol: string) => [
+    JSON.stringify({
+      op: 'subscribe',
+      args: [
+        { channel: 'books', instId: toInstrumentId(symbol) },
+        { channel: 'trades', instId: toInstrumentId(symbol) }
+      ]
+    })
+  ],
+
+  // OKX closes connections that send nothing for 30s; the pong also proves a quiet book is alive
+  heartbeat: { intervalMs: 10_000, message: 'ping', reply: 'pong' },
+
+  parseMessage: (message: StreamMessage): DepthMessage | null => {
+    if (message.arg?.channel !== 'books' || !message.data?.[0]) return null;
+
+    const data = message.data[0];
+    return {
+      type: message.action === 'snapshot' ? 'snapshot' : 'update',
+      bids: parseLevels(data.bids),
+      asks: parseLevels(data.asks),
+      firstUpdateId: data.prevSeqId + 1,
+      lastUpdateId: data.seqId,
+      timestamp: now()
+    };
+  },
+
+  parseTrades: (message: StreamMessage): Trade[] | null => {
+    if (message.arg?.channel !== 'trades' || !message.data) return null;
+
+    // side is the taker's
+    return message.data.map((trade: { px: string; sz: string; side: 'buy' | 'sell' }) => ({
+      price: parseFloat(trade.px),
+      quantity: parseFloat(trade.sz),
+      side: trade.side,
+      timestamp: now()
+    }));
+  },
+
+  isStale: isCoveredBy,
+
+  // prevSeqId links each push to the previous one
+  continuesSequence: followsDirectly
+};
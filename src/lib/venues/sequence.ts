@@ -0,0 +1,11 @@
+import { DepthMessage } from './types';
+
+// Shared sequence rules for venues whose updates carry a contiguous id range
+
+// Everything in the update is already reflected in the book
+export const isCoveredBy = (message: DepthMessage, lastUpdateId: number) =>
+  message.lastUpdateId <= lastUpdateId;
+
+// The update starts exactly where the book left off
+export const followsDirectly = (message: DepthMessage, lastUpdateId: number) =>
+  message.firstUpdateId === lastUpdateId + 1;
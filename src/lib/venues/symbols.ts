@@ -0,0 +1,14 @@
+// Quote assets checked longest-first so e.g. "USDT" wins over "USD"
+const QUOTE_ASSETS = ['FDUSD', 'USDT', 'USDC', 'BUSD', 'EUR', 'USD', 'BTC', 'ETH', 'BNB'];
+
+// Splits an exchange-agnostic symbol such as "BTCUSDT" into base and quote assets
+export const splitSymbol = (symbol: string): { base: string; quote: string } => {
+  const upper = symbol.toUpperCase();
+  const quote = QUOTE_ASSETS.find(asset => upper.endsWith(asset) && upper.length > asset.length);
+  if (!quote) return { base: upper, quote: '' };
+  return { base: upper.slice(0, -quote.length), quote };
+};
+
+// Exchange symbols are short runs of capitals and digits; anything else is rejected before it
+// reaches an adapter or a URL
+export const isValidSymbol = (symbol: string) => /^[A-Z0-9]{2,30}$/.test(symbol);
@@ -0,0 +1,68 @@
+import { Trade } from '@/types/orderbook';
+import { VenueEndpoints } from './endpoints';
+import { InstrumentInfo } from './instruments';
+
+// Normalized market-data types shared by every venue adapter
+
+// [price, quantity] - a quantity of 0 removes the level
+export type PriceLevelUpdate = [number, number];
+
+export interface DepthSnapshot {
+  bids: PriceLevelUpdate[];
+  asks: PriceLevelUpdate[];
+  lastUpdateId: number;
+}
+
+export interface DepthMessage {
+  // 'snapshot' replaces the whole book, 'update' is a diff against it
+  type: 'snapshot' | 'update';
+  bids: PriceLevelUpdate[];
+  asks: PriceLevelUpdate[];
+  firstUpdateId: number;
+  lastUpdateId: number;
+  timestamp: number;
+}
+
+// A stream payload as JSON.parse returns it; each adapter knows its venue's shape
+export type StreamMessage = ReturnType<typeof JSON.parse>;
+
+// Client-initiated keepalive for venues that drop quiet clients. `reply` is the venue's
+// answer when it isn't JSON, so it can be dropped before parsing.
+export interface Heartbeat {
+  intervalMs: number;
+  message: string;
+  reply?: string;
+}
+
+export interface VenueAdapter {
+  id: string;
+  name: string;
+
+  // Every listed symbol with its trading rules; venues without a usable listing leave this undefined.
+  // `source` overrides where to fetch from, e.g. the mock exchange.
+  fetchInstruments?: (source?: VenueEndpoints) => Promise<InstrumentInfo[]>;
+
+  // REST snapshot for venues whose stream only carries diffs.
+  // Venues that push their own snapshot over the stream leave this undefined.
+  fetchSnapshot?: (symbol: string) => Promise<DepthSnapshot>;
+
+  streamUrl: (symbol: string) => string;
+
+  // Messages sent right after the socket opens (empty when the URL already subscribes)
+  subscribeMessages: (symbol: string) => string[];
+
+  // Venues that ping clients themselves (answered by the browser) leave this undefined
+  heartbeat?: Heartbeat;
+
+  // Both get every payload, decoded once by the feed.
+  // Returns null for anything that isn't depth data (acks, pongs, other channels)
+  parseMessage: (message: StreamMessage) => DepthMessage | null;
+
+  // Trades from the same socket; null for anything that isn't trade data
+  parseTrades: (message: StreamMessage) => Trade[] | null;
+
+  // Sequence rules. Stale updates are already covered by the book and get dropped;
+  // anything else must continue the sequence or the book has a gap and needs a resync.
+  isStale: (message: DepthMessage, lastUpdateId: number) => boolean;
+  continuesSequence: (message: DepthMessage, lastUpdateId: number, firstAfterSnapshot: boolean) => boolean;
+}
@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_VIEW_STATE, parseViewState, viewStateFromQuery, viewStateToQuery } from './viewState';
+
+describe('view state', () => {
+  it('round-trips through the query string, and defaults give an empty one', () => {
+    const state = { ...DEFAULT_VIEW_STATE, symbol: 'ETHUSDT', venues: ['binance', 'okx'], bucketMultiplier: 5 };
+
+    assert.equal(viewStateToQuery(DEFAULT_VIEW_STATE), '');
+    assert.deepEqual(viewStateFromQuery(viewStateToQuery(state)), state);
+    assert.equal(viewStateFromQuery('?unrelated=1'), null);
+  });
+
+  it('falls back per field for numbers outside what the controls offer', () => {
+    const state = viewStateFromQuery('bucketMultiplier=0&history={"windowMs":60000,"sampleIntervalMs":0,"depth":-5}');
+
+    assert.equal(state?.bucketMultiplier, DEFAULT_VIEW_STATE.bucketMultiplier);
+    assert.deepEqual(state?.history, { ...DEFAULT_VIEW_STATE.history, windowMs: 60_000 });
+    assert.equal(parseViewState({ bucketMultiplier: 7 }).bucketMultiplier, DEFAULT_VIEW_STATE.bucketMultiplier);
+    assert.equal(parseViewState({ history: { windowMs: 42 } }).history.windowMs, DEFAULT_VIEW_STATE.history.windowMs);
+    assert.equal(parseViewState({ comparisonPanes: [{ windowMs: -1 }] }).comparisonPanes[0].windowMs, 60_000);
+  });
+
+  it('requires positive sizes and ranges', () => {
+    const state = parseViewState({
+      metricSettings: { topN: 0, depthBps: -10 },
+      priceAxis: { mode: 'bps', range: 0 },
+      wallDetection: { value: -2 }
+    });
+
+    assert.deepEqual(state.metricSettings, DEFAULT_VIEW_STATE.metricSettings);
+    assert.deepEqual(state.priceAxis, { ...DEFAULT_VIEW_STATE.priceAxis, mode: 'bps' });
+    assert.equal(state.wallDetection.value, DEFAULT_VIEW_STATE.wallDetection.value);
+  });
+
+  it('coarsens sampling that is too fine for the window', () => {
+    const { history } = parseViewState({ history: { windowMs: 3_600_000, sampleIntervalMs: 100 } });
+
+    assert.equal(history.windowMs, 3_600_000);
+    assert.ok(history.windowMs / history.sampleIntervalMs <= 3600);
+  });
+
+  it('drops unknown venues and malformed symbols', () => {
+    const state = parseViewState({ symbol: 'btc/usdt?x', venues: ['binance', 'nowhere'], comparisonPanes: [{ venueIds: ['nowhere'] }] });
+
+    assert.equal(state.symbol, DEFAULT_VIEW_STATE.symbol);
+    assert.deepEqual(state.venues, ['binance']);
+    assert.deepEqual(state.comparisonPanes[0].venueIds, []);
+  });
+});
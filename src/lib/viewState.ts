@@ -0,0 +1,233 @@
+import type { RenderMode } from '@/components/ThreeJSVisualization';
+import { DEFAULT_HISTORY_SETTINGS, HistorySettings } from '@/types/orderbook';
+import { DEFAULT_LEVEL_FILTERS, LevelFilters } from '@/lib/orderbook/filters';
+import { DEFAULT_METRIC_SETTINGS, MetricSettings } from '@/lib/orderbook/metrics';
+import { DEFAULT_WALL_DETECTION, WallDetectionSettings } from '@/lib/orderbook/liquidityWalls';
+import { DEFAULT_PRICE_AXIS, PriceAxisSettings } from '@/lib/visualization/priceAxis';
+import { CameraPose } from '@/lib/visualization/cameraSync';
+import { DEPTH_OPTIONS, SAMPLE_OPTIONS, WINDOW_OPTIONS, withWindow } from '@/lib/visualization/timeAxis';
+import { BUCKET_MULTIPLIERS } from '@/lib/orderbook/aggregate';
+import { isValidSymbol, venueAdapters } from '@/lib/venues';
+import {
+  ComparisonPaneSettings,
+  DEFAULT_COMPARISON_PANES,
+  DEFAULT_VIEW_SYNC,
+  PaneCount,
+  ViewSync
+} from '@/lib/visualization/layout';
+
+// Everything that decides what the visualizer shows, in a form that survives a round trip
+// through a URL, localStorage or an exported file. Anything read back is checked against the
+// defaults' shape, so a stale or hand-edited value falls back rather than breaking the page.
+
+export interface ViewState {
+  symbol: string;
+  // Enabled venues
+  venues: string[];
+  darkMode: boolean;
+  isRotating: boolean;
+  showPressureZones: boolean;
+  showImbalance: boolean;
+  showTrades: boolean;
+  showDepthChart: boolean;
+  renderMode: RenderMode;
+  cumulativeDepth: boolean;
+  bookView: 'venues' | 'consolidated';
+  bucketMultiplier: number;
+  history: HistorySettings;
+  priceAxis: PriceAxisSettings;
+  filters: LevelFilters;
+  metricSettings: MetricSettings;
+  wallDetection: WallDetectionSettings;
+  paneCount: PaneCount;
+  comparisonPanes: ComparisonPaneSettings[];
+  viewSync: ViewSync;
+  // Null leaves the camera on its default preset
+  camera: CameraPose | null;
+}
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  symbol: 'BTCUSDT',
+  venues: ['binance'],
+  darkMode: true,
+  isRotating: true,
+  showPressureZones: true,
+  showImbalance: true,
+  showTrades: true,
+  showDepthChart: true,
+  renderMode: 'bars',
+  cumulativeDepth: false,
+  bookView: 'venues',
+  bucketMultiplier: 1,
+  history: DEFAULT_HISTORY_SETTINGS,
+  priceAxis: DEFAULT_PRICE_AXIS,
+  filters: DEFAULT_LEVEL_FILTERS,
+  metricSettings: DEFAULT_METRIC_SETTINGS,
+  wallDetection: DEFAULT_WALL_DETECTION,
+  paneCount: 1,
+  comparisonPanes: DEFAULT_COMPARISON_PANES,
+  viewSync: DEFAULT_VIEW_SYNC,
+  camera: null
+};
+
+const optionValues = (options: { value: number }[]) => options.map(option => option.value);
+
+// Values a string union or a choice from a list may take, for checking what was read back
+const ALLOWED: { [path: string]: readonly unknown[] } = {
+  renderMode: ['bars', 'surface', 'heatmap'],
+  bookView: ['venues', 'consolidated'],
+  paneCount: [1, 2, 4],
+  bucketMultiplier: BUCKET_MULTIPLIERS,
+  'history.windowMs': optionValues(WINDOW_OPTIONS),
+  'history.sampleIntervalMs': optionValues(SAMPLE_OPTIONS),
+  'history.depth': DEPTH_OPTIONS,
+  'comparisonPanes.windowMs': optionValues(WINDOW_OPTIONS),
+  'priceAxis.mode': ['fit', 'absolute', 'bps', 'ticks'],
+  'priceAxis.anchor': ['reference', 'slice'],
+  'filters.side': ['both', 'bids', 'asks'],
+  'filters.priceBand.mode': ['off', 'absolute', 'bps'],
+  'wallDetection.mode': ['zscore', 'median', 'absolute']
+};
+
+// Numbers that divide or size something, where zero or less would break the view
+const POSITIVE = ['metricSettings.topN', 'metricSettings.depthBps', 'priceAxis.range', 'wallDetection.value'];
+
+// Takes each field of `value` that has the fallback's type (and an allowed value, where listed)
+const mergeShape = <T>(fallback: T, value: unknown, path: string): T => {
+  if (Array.isArray(fallback)) {
+    return (Array.isArray(value) && value.every(item => typeof item === typeof fallback[0]) ? value : fallback) as T;
+  }
+  if (fallback !== null && typeof fallback === 'object') {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) return fallback;
+    return Object.fromEntries(Object.entries(fallback).map(([key, item]) => (
+      [key, mergeShape(item, (value as Record<string, unknown>)[key], path ? `${path}.${key}` : key)]
+    ))) as T;
+  }
+  if (typeof value !== typeof fallback) return fallback;
+  if (typeof value === 'number' && !Number.isFinite(value)) return fallback;
+  if (ALLOWED[path] && !ALLOWED[path].includes(value)) return fallback;
+  if (POSITIVE.includes(path) && !((value as number) > 0)) return fallback;
+  return value as T;
+};
+
+// Symbols and venue ids end up in adapter lookups and exchange URLs, so only known venues and
+// plain exchange symbols get through
+const knownVenues = (venueIds: string[]) => venueIds.filter(venueId => venueId in venueAdapters);
+const checkedSymbol = (symbol: string, fallback: string) => (isValidSymbol(symbol) ? symbol : fallback);
+
+const checkPane = (pane: ComparisonPaneSettings, fallback: ComparisonPaneSettings): ComparisonPaneSettings => ({
+  ...pane,
+  symbol: checkedSymbol(pane.symbol, fallback.symbol),
+  venueIds: knownVenues(pane.venueIds)
+});
+
+// A pose object, or the URL's six comma-separated numbers
+const parseCamera = (value: unknown): CameraPose | null => {
+  const pose = value as Partial<CameraPose> | null;
+  const numbers: unknown[] = typeof value === 'string'
+    ? value.split(',').map(Number)
+    : Array.isArray(pose?.position) && Array.isArray(pose?.target) ? [...pose.position, ...pose.target] : [];
+  const valid = numbers.filter((number): number is number => typeof number === 'number' && Number.isFinite(number));
+  if (numbers.length !== 6 || valid.length !== 6) return null;
+  return { position: [valid[0], valid[1], valid[2]], target: [valid[3], valid[4], valid[5]] };
+};
+
+const cameraNumbers = (camera: CameraPose) => [...camera.position, ...camera.target].map(number => Math.round(number * 100) / 100);
+
+// Fills in anything missing or malformed from the defaults
+export const parseViewState = (value: unknown): ViewState => {
+  const record = value !== null && typeof value === 'object' ? value as Record<string, unknown> : {};
+  const panes = Array.isArray(record.comparisonPanes) ? record.comparisonPanes : [];
+  const state = mergeShape(DEFAULT_VIEW_STATE, record, '');
+  return {
+    ...state,
+    // Sampling too fine for the window would stall the scene; the controls never allow it either
+    history: withWindow(state.history, state.history.windowMs),
+    symbol: checkedSymbol(state.symbol, DEFAULT_VIEW_STATE.symbol),
+    venues: knownVenues(state.venues),
+    comparisonPanes: DEFAULT_COMPARISON_PANES.map((fallback, index) => (
+      checkPane(mergeShape(fallback, panes[index], 'comparisonPanes'), fallback)
+    )),
+    camera: parseCamera(record.camera)
+  };
+};
+
+// Query string holding only what differs from the defaults, so a default view has a bare URL.
+// Flags are 1/0, lists comma-separated, the camera six numbers and nested settings JSON.
+export const viewStateToQuery = (state: ViewState): string => {
+  const params = new URLSearchParams();
+  (Object.keys(DEFAULT_VIEW_STATE) as (keyof ViewState)[]).forEach(key => {
+    const value = state[key];
+    if (JSON.stringify(value) === JSON.stringify(DEFAULT_VIEW_STATE[key])) return;
+    if (key === 'camera') params.set(key, state.camera ? cameraNumbers(state.camera).join(',') : '');
+    else if (key === 'venues') params.set(key, state.venues.join(','));
+    else if (typeof value === 'boolean') params.set(key, value ? '1' : '0');
+    else if (typeof value === 'object') params.set(key, JSON.stringify(value));
+    else params.set(key, String(value));
+  });
+  // Commas are legal in a query, and lists and camera numbers read better without escaping
+  return params.toString().replace(/%2C/g, ',');
+};
+
+// Null when the query carries no view state at all
+export const viewStateFromQuery = (query: string): ViewState | null => {
+  const params = new URLSearchParams(query);
+  const keys = (Object.keys(DEFAULT_VIEW_STATE) as (keyof ViewState)[]).filter(key => params.has(key));
+  if (keys.length === 0) return null;
+
+  const record: Record<string, unknown> = {};
+  keys.forEach(key => {
+    const text = params.get(key)!;
+    const fallback = DEFAULT_VIEW_STATE[key];
+    if (key === 'camera') record[key] = text;
+    else if (key === 'venues') record[key] = text.split(',').filter(Boolean);
+    else if (typeof fallback === 'boolean') record[key] = text === '1' || text === 'true';
+    else if (typeof fallback === 'number') record[key] = Number(text);
+    else if (typeof fallback === 'string') record[key] = text;
+    else {
+      try {
+        record[key] = JSON.parse(text);
+      } catch {
+        // Left to the default
+      }
+    }
+  });
+  return parseViewState(record);
+};
+
+export interface SavedLayout {
+  name: string;
+  savedAt: number;
+  state: ViewState;
+}
+
+// File format for exported layouts
+export interface LayoutExport {
+  type: 'orderbook-layouts';
+  version: 1;
+  layouts: SavedLayout[];
+}
+
+export const exportLayouts = (layouts: SavedLayout[]): LayoutExport => ({
+  type: 'orderbook-layouts',
+  version: 1,
+  layouts
+});
+
+// Accepts an export file, or a bare list of layouts; entries without a name are skipped
+export const parseLayouts = (value: unknown): SavedLayout[] => {
+  const list = Array.isArray(value)
+    ? value
+    : value !== null && typeof value === 'object' && Array.isArray((value as LayoutExport).layouts)
+      ? (value as LayoutExport).layouts
+      : null;
+  if (!list) throw new Error('Not a layout file');
+
+  return list
+    .filter((entry): entry is SavedLayout => entry !== null && typeof entry === 'object' && typeof entry.name === 'string' && entry.name.trim() !== '')
+    .map(entry => ({
+      name: entry.name.trim(),
+      savedAt: typeof entry.savedAt === 'number' ? entry.savedAt : Date.now(),
+      state: parseViewState(entry.state)
+    }));
+};
@@ -0,0 +1,73 @@
+import type * as THREE from 'three';
+import { ThreeModule } from './instancedBars';
+
+// Scene axes: X price, Y quantity, Z time (latest towards +Z)
+export type CameraPresetId = 'default' | 'topDown' | 'sideDepth' | 'priceTimeFront';
+
+export interface CameraPreset {
+  id: CameraPresetId;
+  label: string;
+  // Keyboard shortcut
+  key: string;
+  position: [number, number, number];
+  target: [number, number, number];
+}
+
+export const CAMERA_PRESETS: CameraPreset[] = [
+  { id: 'default', label: 'Perspective', key: '1', position: [25, 20, 25], target: [0, 5, 0] },
+  // Straight down onto the price x time plane, the natural view for the heatmap
+  { id: 'topDown', label: 'Top-down heatmap', key: '2', position: [0, 55, 0.01], target: [0, 0, 0] },
+  // Low and level along the time axis, so the book reads as a price x quantity profile
+  { id: 'sideDepth', label: 'Side depth profile', key: '3', position: [0, 6, 48], target: [0, 6, 0] },
+  // Price across the screen, time receding from the latest slice
+  { id: 'priceTimeFront', label: 'Price-time front', key: '4', position: [0, 28, 40], target: [0, 0, -4] }
+];
+
+export const getCameraPreset = (id: CameraPresetId) => CAMERA_PRESETS.find(preset => preset.id === id) ?? CAMERA_PRESETS[0];
+
+export interface CameraTransition {
+  start: (preset: CameraPreset) => void;
+  // Stops where it is, e.g. when the user grabs the camera mid-flight
+  cancel: () => void;
+  // Advances an active transition; true while it is still moving
+  step: (now: number) => boolean;
+}
+
+const TRANSITION_MS = 600;
+
+// Eases the camera and orbit target from wherever they are to a preset
+export const createCameraTransition = (
+  THREE: ThreeModule,
+  camera: THREE.PerspectiveCamera,
+  target: THREE.Vector3
+): CameraTransition => {
+  const fromPosition = new THREE.Vector3();
+  const fromTarget = new THREE.Vector3();
+  const toPosition = new THREE.Vector3();
+  const toTarget = new THREE.Vector3();
+  let startedAt: number | null = null;
+
+  return {
+    start: (preset: CameraPreset) => {
+      fromPosition.copy(camera.position);
+      fromTarget.copy(target);
+      toPosition.set(...preset.position);
+      toTarget.set(...preset.target);
+      startedAt = performance.now();
+    },
+
+    cancel: () => {
+      startedAt = null;
+    },
+
+    step: (now: number) => {
+      if (startedAt === null) return false;
+      const t = Math.min(1, (now - startedAt) / TRANSITION_MS);
+      const eased = 1 - Math.pow(1 - t, 3);
+      camera.position.lerpVectors(fromPosition, toPosition, eased);
+      target.lerpVectors(fromTarget, toTarget, eased);
+      if (t === 1) startedAt = null;
+      return startedAt !== null;
+    }
+  };
+};
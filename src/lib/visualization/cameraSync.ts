@@ -0,0 +1,34 @@
+// Keeps several scenes looking from the same place. Each scene joins with a listener that moves
+// its own camera, and publishes its pose whenever its camera moves; everyone else follows.
+
+export interface CameraPose {
+  position: [number, number, number];
+  target: [number, number, number];
+}
+
+export interface CameraSyncMember {
+  publish: (pose: CameraPose) => void;
+  leave: () => void;
+}
+
+export interface CameraSync {
+  join: (onPose: (pose: CameraPose) => void) => CameraSyncMember;
+}
+
+export const createCameraSync = (): CameraSync => {
+  const listeners = new Set<(pose: CameraPose) => void>();
+
+  return {
+    join: (onPose) => {
+      listeners.add(onPose);
+      return {
+        publish: (pose) => listeners.forEach(listener => {
+          if (listener !== onPose) listener(pose);
+        }),
+        leave: () => {
+          listeners.delete(onPose);
+        }
+      };
+    }
+  };
+};
@@ -0,0 +1,105 @@
+import { HistoricalData } from '@/types/orderbook';
+import { midPrice } from '@/lib/orderbook/depth';
+
+// Resting quantity resampled onto a regular price x time grid, row-major by time.
+// Rows run from the start of the window (row 0) to its end.
+export interface DepthGrid {
+  rows: number;
+  bins: number;
+  bidQuantity: Float32Array;
+  askQuantity: Float32Array;
+  // Mid price per row, NaN where no sample landed
+  mids: Float32Array;
+  // Rows that received at least one sample
+  filled: Uint8Array;
+  maxQuantity: number;
+}
+
+export interface DepthGridRange {
+  // Position of a price across the price range in [0, 1), given the mid of its sample
+  toUnit: (price: number, sliceMid: number) => number;
+  timeStart: number;
+  windowMs: number;
+}
+
+export const buildDepthGrid = (
+  histories: HistoricalData[][],
+  range: DepthGridRange,
+  rows: number,
+  bins: number
+): DepthGrid => {
+  const grid: DepthGrid = {
+    rows,
+    bins,
+    bidQuantity: new Float32Array(rows * bins),
+    askQuantity: new Float32Array(rows * bins),
+    mids: new Float32Array(rows).fill(NaN),
+    filled: new Uint8Array(rows),
+    maxQuantity: 0
+  };
+  const midSums = new Float64Array(rows);
+  const midCounts = new Uint16Array(rows);
+
+  const rowOf = (timestamp: number) => Math.floor(((timestamp - range.timeStart) / range.windowMs) * rows);
+
+  histories.forEach(historicalData => {
+    // Several samples can share a row once the grid is coarser than the sampling; the latest wins
+    const latestPerRow = new Map<number, HistoricalData>();
+    historicalData.forEach(snapshot => {
+      const row = rowOf(snapshot.timestamp);
+      if (row >= 0 && row < rows) latestPerRow.set(row, snapshot);
+    });
+
+    latestPerRow.forEach((snapshot, row) => {
+      grid.filled[row] = 1;
+      const mid = midPrice(snapshot);
+
+      const accumulate = (levels: HistoricalData['bids'], target: Float32Array) => {
+        levels.forEach(level => {
+          const bin = Math.floor(range.toUnit(level.price, mid) * bins);
+          if (bin < 0 || bin >= bins) return;
+          target[row * bins + bin] += level.quantity;
+        });
+      };
+      accumulate(snapshot.bids, grid.bidQuantity);
+      accumulate(snapshot.asks, grid.askQuantity);
+
+      if (!Number.isNaN(mid)) {
+        midSums[row] += mid;
+        midCounts[row]++;
+      }
+    });
+  });
+
+  for (let row = 0; row < rows; row++) {
+    if (midCounts[row] > 0) grid.mids[row] = midSums[row] / midCounts[row];
+  }
+  for (let cell = 0; cell < rows * bins; cell++) {
+    grid.maxQuantity = Math.max(grid.maxQuantity, grid.bidQuantity[cell] + grid.askQuantity[cell]);
+  }
+
+  return grid;
+};
+
+// Bookmap-style ramp: dark blue through cyan and yellow to white
+const HEAT_STOPS: [number, number, number, number][] = [
+  [0, 8, 12, 28],
+  [0.25, 30, 58, 138],
+  [0.5, 6, 182, 212],
+  [0.75, 250, 204, 21],
+  [1, 255, 255, 255]
+];
+
+// Writes the ramp color for t in [0, 1] into out as 0-255 RGB
+export const heatColor = (t: number, out: [number, number, number]) => {
+  const clamped = Math.max(0, Math.min(1, t));
+  let upper = 1;
+  while (upper < HEAT_STOPS.length - 1 && HEAT_STOPS[upper][0] < clamped) upper++;
+  const [t0, r0, g0, b0] = HEAT_STOPS[upper - 1];
+  const [t1, r1, g1, b1] = HEAT_STOPS[upper];
+  const mix = (clamped - t0) / (t1 - t0);
+  out[0] = r0 + (r1 - r0) * mix;
+  out[1] = g0 + (g1 - g0) * mix;
+  out[2] = b0 + (b1 - b0) * mix;
+  return out;
+};
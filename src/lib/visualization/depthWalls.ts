@@ -0,0 +1,80 @@
+import type * as THREE from 'three';
+import { OrderbookLevel } from '@/types/orderbook';
+import { cumulativeDepth } from '@/lib/orderbook/depth';
+import { ThreeModule } from './instancedBars';
+
+export interface DepthWallSlice {
+  z: number;
+  mid: number;
+  bids: OrderbookLevel[];
+  asks: OrderbookLevel[];
+  bidColor: THREE.Color;
+  askColor: THREE.Color;
+}
+
+export interface DepthWalls {
+  // Heights are cumulative size / maxCumulative * maxHeight
+  update: (slices: DepthWallSlice[], priceToX: (price: number, sliceMid: number) => number, maxCumulative: number, maxHeight: number) => void;
+  setVisible: (visible: boolean) => void;
+  dispose: () => void;
+}
+
+// Vertical stepped ribbons of cumulative depth, one per side per time slice,
+// rising away from the inside of the book the way a classic depth chart does
+export const createDepthWalls = (THREE: ThreeModule, scene: THREE.Scene): DepthWalls => {
+  const material = new THREE.MeshLambertMaterial({
+    vertexColors: true,
+    side: THREE.DoubleSide,
+    transparent: true,
+    opacity: 0.75
+  });
+  const mesh = new THREE.Mesh(new THREE.BufferGeometry(), material);
+  mesh.userData = { isDepthWalls: true };
+  scene.add(mesh);
+
+  return {
+    update: (slices, priceToX, maxCumulative, maxHeight) => {
+      const positions: number[] = [];
+      const colors: number[] = [];
+
+      const pushQuad = (x0: number, x1: number, height: number, z: number, color: THREE.Color) => {
+        positions.push(
+          x0, 0, z, x1, 0, z, x1, height, z,
+          x0, 0, z, x1, height, z, x0, height, z
+        );
+        for (let vertex = 0; vertex < 6; vertex++) colors.push(color.r, color.g, color.b);
+      };
+
+      const addWall = (levels: OrderbookLevel[], slice: DepthWallSlice, color: THREE.Color) => {
+        const points = cumulativeDepth(levels);
+        // Each step holds the size accumulated up to a level until the next level out
+        for (let index = 0; index < points.length - 1; index++) {
+          const height = (points[index].cumulative / maxCumulative) * maxHeight;
+          pushQuad(priceToX(points[index].price, slice.mid), priceToX(points[index + 1].price, slice.mid), height, slice.z, color);
+        }
+      };
+
+      slices.forEach(slice => {
+        addWall(slice.bids, slice, slice.bidColor);
+        addWall(slice.asks, slice, slice.askColor);
+      });
+
+      mesh.geometry.dispose();
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+      geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+      geometry.computeVertexNormals();
+      mesh.geometry = geometry;
+    },
+
+    setVisible: (visible: boolean) => {
+      mesh.visible = visible;
+    },
+
+    dispose: () => {
+      scene.remove(mesh);
+      mesh.geometry.dispose();
+      material.dispose();
+    }
+  };
+};
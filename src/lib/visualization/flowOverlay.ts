@@ -0,0 +1,95 @@
+import type * as THREE from 'three';
+import { FlowHint } from '@/lib/orderbook/tradeFlow';
+import { ThreeModule } from './instancedBars';
+
+export interface TradeMarker {
+  x: number;
+  z: number;
+  radius: number;
+  side: 'buy' | 'sell';
+}
+
+// A flagged price level, drawn as a rail along the time span it was active in
+export interface HintRail {
+  hint: FlowHint;
+  x: number;
+  z0: number;
+  z1: number;
+}
+
+export interface FlowOverlay {
+  update: (markers: TradeMarker[], rails: HintRail[]) => void;
+  setVisible: (visible: boolean) => void;
+  dispose: () => void;
+}
+
+const HINT_COLORS = { spoof: 0xf97316, iceberg: 0x22d3ee };
+
+// Trades as spheres on the price x time floor, sized by volume, plus rails marking
+// suspected spoofing and iceberg levels
+export const createFlowOverlay = (THREE: ThreeModule, scene: THREE.Scene): FlowOverlay => {
+  const group = new THREE.Group();
+  group.userData = { isFlowOverlay: true };
+  scene.add(group);
+
+  const sphere = new THREE.IcosahedronGeometry(1, 1);
+  const tradeMaterial = new THREE.MeshLambertMaterial({ color: 0xffffff, transparent: true, opacity: 0.85 });
+  const buyColor = new THREE.Color(0x34d399);
+  const sellColor = new THREE.Color(0xf43f5e);
+
+  const rail = new THREE.BoxGeometry(1, 1, 1);
+  rail.translate(0, 0.5, 0.5); // spans [0, 1] along z, grows up from y = 0
+  const railMaterials = {
+    spoof: new THREE.MeshBasicMaterial({ color: HINT_COLORS.spoof, transparent: true, opacity: 0.7 }),
+    iceberg: new THREE.MeshBasicMaterial({ color: HINT_COLORS.iceberg, transparent: true, opacity: 0.7 })
+  };
+
+  let trades = new THREE.InstancedMesh(sphere, tradeMaterial, 1);
+  trades.count = 0;
+  trades.frustumCulled = false;
+  const matrix = new THREE.Matrix4();
+  const rails = new THREE.Group();
+  group.add(trades, rails);
+
+  return {
+    update: (markers: TradeMarker[], hintRails: HintRail[]) => {
+      if (markers.length > trades.instanceMatrix.count) {
+        group.remove(trades);
+        trades.dispose();
+        trades = new THREE.InstancedMesh(sphere, tradeMaterial, Math.max(markers.length, trades.instanceMatrix.count * 2));
+        trades.frustumCulled = false;
+        group.add(trades);
+      }
+
+      markers.forEach((marker, index) => {
+        matrix.makeScale(marker.radius, marker.radius, marker.radius).setPosition(marker.x, marker.radius, marker.z);
+        trades.setMatrixAt(index, matrix);
+        trades.setColorAt(index, marker.side === 'buy' ? buyColor : sellColor);
+      });
+      trades.count = markers.length;
+      trades.instanceMatrix.needsUpdate = true;
+      if (trades.instanceColor) trades.instanceColor.needsUpdate = true;
+
+      rails.clear();
+      hintRails.forEach(({ hint, x, z0, z1 }) => {
+        const mesh = new THREE.Mesh(rail, railMaterials[hint.kind]);
+        mesh.position.set(x, 0, Math.min(z0, z1));
+        mesh.scale.set(0.25, 0.25, Math.max(Math.abs(z1 - z0), 0.5));
+        rails.add(mesh);
+      });
+    },
+
+    setVisible: (visible: boolean) => {
+      group.visible = visible;
+    },
+
+    dispose: () => {
+      scene.remove(group);
+      trades.dispose();
+      sphere.dispose();
+      tradeMaterial.dispose();
+      rail.dispose();
+      Object.values(railMaterials).forEach(material => material.dispose());
+    }
+  };
+};
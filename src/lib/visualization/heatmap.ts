@@ -0,0 +1,86 @@
+import type * as THREE from 'three';
+import { ThreeModule } from './instancedBars';
+import { DepthGrid, heatColor } from './depthGrid';
+
+export interface LiquidityHeatmap {
+  update: (grid: DepthGrid, priceToX: (price: number) => number) => void;
+  setVisible: (visible: boolean) => void;
+  dispose: () => void;
+}
+
+// Flat price x time liquidity map on the floor of the scene, with the mid price traced over it
+export const createLiquidityHeatmap = (THREE: ThreeModule, scene: THREE.Scene): LiquidityHeatmap => {
+  const group = new THREE.Group();
+  group.userData = { isHeatmap: true };
+  scene.add(group);
+
+  const planeGeometry = new THREE.PlaneGeometry(40, 40);
+  planeGeometry.rotateX(-Math.PI / 2); // lie flat; texture rows then run from z = +20 to z = -20
+  const planeMaterial = new THREE.MeshBasicMaterial({ side: THREE.DoubleSide });
+  const plane = new THREE.Mesh(planeGeometry, planeMaterial);
+  plane.position.y = 0.02;
+  group.add(plane);
+
+  const midMaterial = new THREE.LineBasicMaterial({ color: 0xffffff });
+  const midLine = new THREE.Line(new THREE.BufferGeometry(), midMaterial);
+  group.add(midLine);
+
+  let texture: THREE.DataTexture | null = null;
+  const rgb: [number, number, number] = [0, 0, 0];
+
+  return {
+    update: (grid: DepthGrid, priceToX: (price: number) => number) => {
+      const { rows, bins } = grid;
+
+      if (!texture || texture.image.width !== bins || texture.image.height !== rows) {
+        texture?.dispose();
+        texture = new THREE.DataTexture(new Uint8Array(rows * bins * 4), bins, rows, THREE.RGBAFormat);
+        texture.magFilter = THREE.LinearFilter;
+        texture.minFilter = THREE.LinearFilter;
+        planeMaterial.map = texture;
+        planeMaterial.needsUpdate = true;
+      }
+
+      // Log scale keeps thin levels visible next to walls
+      const data = texture.image.data as Uint8Array;
+      const logMax = Math.log1p(grid.maxQuantity || 1);
+      for (let row = 0; row < rows; row++) {
+        // Texture row 0 sits at z = +20, which is the newest end of the window
+        const textureRow = rows - 1 - row;
+        for (let bin = 0; bin < bins; bin++) {
+          const cell = row * bins + bin;
+          const quantity = grid.bidQuantity[cell] + grid.askQuantity[cell];
+          heatColor(grid.filled[row] ? Math.log1p(quantity) / logMax : 0, rgb);
+          const offset = (textureRow * bins + bin) * 4;
+          data[offset] = rgb[0];
+          data[offset + 1] = rgb[1];
+          data[offset + 2] = rgb[2];
+          data[offset + 3] = 255;
+        }
+      }
+      texture.needsUpdate = true;
+
+      const points: number[] = [];
+      for (let row = 0; row < rows; row++) {
+        if (Number.isNaN(grid.mids[row])) continue;
+        points.push(priceToX(grid.mids[row]), 0.1, ((row + 0.5) / rows) * 40 - 20);
+      }
+      midLine.geometry.dispose();
+      midLine.geometry = new THREE.BufferGeometry();
+      midLine.geometry.setAttribute('position', new THREE.Float32BufferAttribute(points, 3));
+    },
+
+    setVisible: (visible: boolean) => {
+      group.visible = visible;
+    },
+
+    dispose: () => {
+      scene.remove(group);
+      planeGeometry.dispose();
+      planeMaterial.dispose();
+      texture?.dispose();
+      midLine.geometry.dispose();
+      midMaterial.dispose();
+    }
+  };
+};
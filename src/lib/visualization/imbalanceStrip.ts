@@ -0,0 +1,66 @@
+import type * as THREE from 'three';
+import { ThreeModule } from './instancedBars';
+
+export interface ImbalanceCell {
+  z: number;
+  // In [-1, 1]; NaN draws nothing
+  imbalance: number;
+}
+
+export interface ImbalanceStrip {
+  update: (cells: ImbalanceCell[], cellDepth: number) => void;
+  setVisible: (visible: boolean) => void;
+  dispose: () => void;
+}
+
+const X0 = 20.5;
+const X1 = 22.5;
+
+// Flat strip just beyond the high end of the price axis, one cell per time slice, shading from
+// red (ask-heavy) through grey to green (bid-heavy)
+export const createImbalanceStrip = (THREE: ThreeModule, scene: THREE.Scene): ImbalanceStrip => {
+  const material = new THREE.MeshBasicMaterial({ vertexColors: true, side: THREE.DoubleSide });
+  const mesh = new THREE.Mesh(new THREE.BufferGeometry(), material);
+  mesh.userData = { isImbalanceStrip: true };
+  scene.add(mesh);
+
+  const neutral = new THREE.Color(0x6b7280);
+  const bidHeavy = new THREE.Color(0x22c55e);
+  const askHeavy = new THREE.Color(0xef4444);
+  const color = new THREE.Color();
+
+  return {
+    update: (cells: ImbalanceCell[], cellDepth: number) => {
+      const positions: number[] = [];
+      const colors: number[] = [];
+
+      cells.forEach(({ z, imbalance }) => {
+        if (Number.isNaN(imbalance)) return;
+        color.copy(neutral).lerp(imbalance >= 0 ? bidHeavy : askHeavy, Math.min(1, Math.abs(imbalance)));
+        const z0 = z - cellDepth / 2;
+        const z1 = z + cellDepth / 2;
+        positions.push(
+          X0, 0.05, z0, X1, 0.05, z0, X1, 0.05, z1,
+          X0, 0.05, z0, X1, 0.05, z1, X0, 0.05, z1
+        );
+        for (let vertex = 0; vertex < 6; vertex++) colors.push(color.r, color.g, color.b);
+      });
+
+      mesh.geometry.dispose();
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+      geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+      mesh.geometry = geometry;
+    },
+
+    setVisible: (visible: boolean) => {
+      mesh.visible = visible;
+    },
+
+    dispose: () => {
+      scene.remove(mesh);
+      mesh.geometry.dispose();
+      material.dispose();
+    }
+  };
+};
@@ -0,0 +1,144 @@
+import type * as THREE from 'three';
+import { VenueBreakdown } from '@/lib/orderbook/aggregate';
+
+export type ThreeModule = typeof import('three');
+
+// What a bar stands for; looked up by instance id when picking
+export interface BarData {
+  type: 'bid' | 'ask';
+  venue: string;
+  price: number;
+  quantity: number;
+  timestamp: number;
+  // Mid of the snapshot the level was sampled in
+  mid: number;
+  venues?: VenueBreakdown;
+}
+
+export interface InstancedBars {
+  readonly mesh: THREE.InstancedMesh;
+  // Starts a new frame; bars added afterwards replace the previous frame on commit()
+  begin: () => void;
+  add: (x: number, z: number, width: number, height: number, depth: number, color: THREE.Color, data: BarData) => void;
+  commit: () => void;
+  dataAt: (instanceId: number) => BarData | undefined;
+  // Paints one instance in the highlight color until the next highlight or commit
+  highlight: (instanceId: number | null) => void;
+  dispose: () => void;
+}
+
+const INITIAL_CAPACITY = 4096;
+
+// Every bar is one instance of a shared unit box, scaled and placed through its
+// instance matrix. The mesh only gets reallocated when a frame outgrows it.
+export const createInstancedBars = (THREE: ThreeModule, scene: THREE.Scene): InstancedBars => {
+  const geometry = new THREE.BoxGeometry(1, 1, 1);
+  geometry.translate(0, 0.5, 0); // bars grow up from y = 0
+  const material = new THREE.MeshLambertMaterial({ color: 0xffffff, transparent: true, opacity: 0.8 });
+
+  const matrix = new THREE.Matrix4();
+  const position = new THREE.Vector3();
+  const scale = new THREE.Vector3();
+  const rotation = new THREE.Quaternion();
+  const highlightColor = new THREE.Color(0xffffff);
+  const highlighted = { instanceId: null as number | null, color: new THREE.Color() };
+
+  const allocate = (capacity: number) => {
+    const instanced = new THREE.InstancedMesh(geometry, material, capacity);
+    instanced.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    instanced.setColorAt(0, new THREE.Color());
+    instanced.instanceColor!.setUsage(THREE.DynamicDrawUsage);
+    instanced.count = 0;
+    instanced.castShadow = true;
+    instanced.receiveShadow = true;
+    // Instances spread over the whole scene, so the mesh-level bounds are meaningless
+    instanced.frustumCulled = false;
+    scene.add(instanced);
+    return instanced;
+  };
+
+  let mesh = allocate(INITIAL_CAPACITY);
+  let data: BarData[] = [];
+  let next: BarData[] = [];
+
+  const ensureCapacity = (count: number) => {
+    if (count <= mesh.instanceMatrix.count) return;
+
+    let capacity = mesh.instanceMatrix.count;
+    while (capacity < count) capacity *= 2;
+
+    const previous = mesh;
+    mesh = allocate(capacity);
+    mesh.instanceMatrix.array.set(previous.instanceMatrix.array);
+    mesh.instanceColor!.array.set(previous.instanceColor!.array);
+    scene.remove(previous);
+    previous.dispose();
+  };
+
+  return {
+    get mesh() {
+      return mesh;
+    },
+
+    begin: () => {
+      next = [];
+    },
+
+    add: (x, z, width, height, depth, color, barData) => {
+      const index = next.length;
+      ensureCapacity(index + 1);
+
+      position.set(x, 0, z);
+      // Zero-height instances break normal matrices
+      scale.set(width, Math.max(height, 1e-3), depth);
+      matrix.compose(position, rotation, scale);
+      mesh.setMatrixAt(index, matrix);
+      mesh.setColorAt(index, color);
+      next.push(barData);
+    },
+
+    commit: () => {
+      data = next;
+      mesh.count = data.length;
+      mesh.instanceMatrix.needsUpdate = true;
+      mesh.instanceColor!.needsUpdate = true;
+      // Raycasting tests against cached bounds first
+      mesh.boundingSphere = null;
+      // The new frame wrote fresh colors over any highlight
+      highlighted.instanceId = null;
+    },
+
+    dataAt: (instanceId: number) => data[instanceId],
+
+    highlight: (instanceId: number | null) => {
+      if (instanceId === highlighted.instanceId) return;
+      if (highlighted.instanceId !== null) mesh.setColorAt(highlighted.instanceId, highlighted.color);
+      if (instanceId !== null && instanceId < mesh.count) {
+        mesh.getColorAt(instanceId, highlighted.color);
+        mesh.setColorAt(instanceId, highlightColor);
+      }
+      highlighted.instanceId = instanceId !== null && instanceId < mesh.count ? instanceId : null;
+      mesh.instanceColor!.needsUpdate = true;
+    },
+
+    dispose: () => {
+      scene.remove(mesh);
+      mesh.dispose();
+      geometry.dispose();
+      material.dispose();
+    }
+  };
+};
+
+// Frees the GPU resources behind an object and everything below it: geometries, materials and their textures
+export const disposeObject = (root: THREE.Object3D) => {
+  root.traverse(object => {
+    const mesh = object as THREE.Mesh;
+    mesh.geometry?.dispose();
+    const materials = Array.isArray(mesh.material) ? mesh.material : mesh.material ? [mesh.material] : [];
+    materials.forEach(material => {
+      (material as THREE.MeshBasicMaterial).map?.dispose();
+      material.dispose();
+    });
+  });
+};
@@ -0,0 +1,71 @@
+import type * as THREE from 'three';
+import { ThreeModule } from './instancedBars';
+
+export const createTextSprite = (THREE: ThreeModule, text: string, color: string = '#ffffff') => {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d')!;
+  canvas.width = 256;
+  canvas.height = 64;
+  
+  context.fillStyle = color;
+  context.font = '24px Arial';
+  context.textAlign = 'center';
+  context.fillText(text, 128, 40);
+  
+  const texture = new THREE.CanvasTexture(canvas);
+  const spriteMaterial = new THREE.SpriteMaterial({ map: texture });
+  const sprite = new THREE.Sprite(spriteMaterial);
+  sprite.scale.set(4, 1, 1);
+  return sprite;
+};
+
+export const disposeTextSprite = (sprite: THREE.Sprite) => {
+  sprite.material.map?.dispose();
+  sprite.material.dispose();
+};
+
+export interface AxisTick {
+  // Stable identity so a tick that merely moves keeps its texture
+  key: string;
+  text: string;
+  position: [number, number, number];
+}
+
+export interface AxisTicks {
+  update: (ticks: AxisTick[]) => void;
+  dispose: () => void;
+}
+
+// Tick labels along an axis; sprites are only rebuilt for ticks that appear, and freed when they go
+export const createAxisTicks = (THREE: ThreeModule, scene: THREE.Scene, color: string, scale: number = 0.6): AxisTicks => {
+  const sprites = new Map<string, THREE.Sprite>();
+
+  const remove = (key: string) => {
+    const sprite = sprites.get(key)!;
+    scene.remove(sprite);
+    disposeTextSprite(sprite);
+    sprites.delete(key);
+  };
+
+  return {
+    update: (ticks: AxisTick[]) => {
+      const keys = new Set(ticks.map(tick => tick.key));
+      [...sprites.keys()].filter(key => !keys.has(key)).forEach(remove);
+
+      ticks.forEach(tick => {
+        let sprite = sprites.get(tick.key);
+        if (!sprite) {
+          sprite = createTextSprite(THREE, tick.text, color);
+          sprite.scale.multiplyScalar(scale);
+          sprites.set(tick.key, sprite);
+          scene.add(sprite);
+        }
+        sprite.position.set(...tick.position);
+      });
+    },
+
+    dispose: () => {
+      [...sprites.keys()].forEach(remove);
+    }
+  };
+};
@@ -0,0 +1,38 @@
+import { PriceAxisSettings } from './priceAxis';
+
+// Comparison layout: the main view plus one or three extra panes, each streaming its own
+// symbol from its own venues, optionally tied together so they read on the same terms.
+
+export type PaneCount = 1 | 2 | 4;
+
+export interface ComparisonPaneSettings {
+  symbol: string;
+  venueIds: string[];
+  // Used while time windows aren't synced
+  windowMs: number;
+}
+
+export interface ViewSync {
+  camera: boolean;
+  timeWindow: boolean;
+  // Price axis in basis points from mid and quantities as notional, on one height scale
+  normalize: boolean;
+}
+
+export const DEFAULT_VIEW_SYNC: ViewSync = { camera: true, timeWindow: true, normalize: false };
+
+// Extra panes beyond the main view; a 2-pane layout shows the first of them
+export const DEFAULT_COMPARISON_PANES: ComparisonPaneSettings[] = [
+  { symbol: 'ETHUSDT', venueIds: ['binance'], windowMs: 60_000 },
+  { symbol: 'ADAUSDT', venueIds: ['binance'], windowMs: 60_000 },
+  { symbol: 'DOTUSDT', venueIds: ['binance'], windowMs: 60_000 }
+];
+
+const DEFAULT_BPS_RANGE = 10;
+
+// Normalized panes share a basis-point axis; a range already set in bps carries over
+export const normalizedPriceAxis = (priceAxis: PriceAxisSettings): PriceAxisSettings => ({
+  ...priceAxis,
+  mode: 'bps',
+  range: priceAxis.mode === 'bps' ? priceAxis.range : DEFAULT_BPS_RANGE
+});
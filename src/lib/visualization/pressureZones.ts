@@ -0,0 +1,75 @@
+import type * as THREE from 'three';
+import { LiquidityWall, WallStatus } from '@/lib/orderbook/liquidityWalls';
+import { ThreeModule } from './instancedBars';
+
+// Scene-space box of one wall: price range across X, lifetime along Z
+export interface PressureZoneBox {
+  wall: LiquidityWall;
+  x0: number;
+  x1: number;
+  z0: number;
+  z1: number;
+  height: number;
+}
+
+export interface PressureZones {
+  update: (boxes: PressureZoneBox[]) => void;
+  setVisible: (visible: boolean) => void;
+  dispose: () => void;
+}
+
+const SIDE_COLORS = { bid: 0x00ff88, ask: 0xff4444 };
+// Outline tells what became of the wall
+const STATUS_COLORS: Record<WallStatus, number> = { active: 0xffffff, pulled: 0xfbbf24, absorbed: 0xa855f7, merged: 0x9ca3af };
+
+// Translucent volumes for tracked liquidity walls. Geometry and materials are shared;
+// only the lightweight meshes are rebuilt on update.
+export const createPressureZones = (THREE: ThreeModule, scene: THREE.Scene): PressureZones => {
+  const group = new THREE.Group();
+  group.userData = { isPressureZones: true };
+  scene.add(group);
+
+  const box = new THREE.BoxGeometry(1, 1, 1);
+  box.translate(0.5, 0.5, 0.5); // unit box spanning [0, 1] on every axis
+  const edges = new THREE.EdgesGeometry(box);
+
+  const fills = {
+    bid: new THREE.MeshLambertMaterial({ color: SIDE_COLORS.bid, transparent: true, opacity: 0.18, depthWrite: false }),
+    ask: new THREE.MeshLambertMaterial({ color: SIDE_COLORS.ask, transparent: true, opacity: 0.18, depthWrite: false })
+  };
+  const outlines = {
+    active: new THREE.LineBasicMaterial({ color: STATUS_COLORS.active, transparent: true, opacity: 0.6 }),
+    pulled: new THREE.LineBasicMaterial({ color: STATUS_COLORS.pulled }),
+    absorbed: new THREE.LineBasicMaterial({ color: STATUS_COLORS.absorbed }),
+    merged: new THREE.LineBasicMaterial({ color: STATUS_COLORS.merged })
+  };
+
+  return {
+    update: (boxes: PressureZoneBox[]) => {
+      group.clear();
+      boxes.forEach(({ wall, x0, x1, z0, z1, height }) => {
+        const fill = new THREE.Mesh(box, fills[wall.side]);
+        const outline = new THREE.LineSegments(edges, outlines[wall.status]);
+        [fill, outline].forEach(object => {
+          // Keep a sliver of width and depth so single-level, single-sample walls stay visible
+          object.position.set(Math.min(x0, x1), 0, Math.min(z0, z1));
+          object.scale.set(Math.max(Math.abs(x1 - x0), 0.4), Math.max(height, 0.1), Math.max(Math.abs(z1 - z0), 0.2));
+          group.add(object);
+        });
+      });
+    },
+
+    setVisible: (visible: boolean) => {
+      group.visible = visible;
+    },
+
+    dispose: () => {
+      scene.remove(group);
+      group.clear();
+      box.dispose();
+      edges.dispose();
+      Object.values(fills).forEach(material => material.dispose());
+      Object.values(outlines).forEach(material => material.dispose());
+    }
+  };
+};
@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPriceScale } from './priceAxis';
+
+describe('createPriceScale ticks', () => {
+  const absolute = { mode: 'absolute' as const, range: 10, anchor: 'reference' as const };
+
+  it('labels round prices when anchored on the reference mid', () => {
+    const ticks = createPriceScale(absolute, 100.37, 0, 0.01).ticks(4);
+
+    assert.deepEqual(ticks.map(tick => tick.text), ['95', '100', '105', '110']);
+    ticks.forEach(tick => assert.ok(tick.x >= -20 && tick.x <= 20));
+  });
+
+  it('keeps tick keys while the mid moves within a step', () => {
+    const keys = (mid: number) => createPriceScale(absolute, mid, 0, 0.01).ticks(4).map(tick => tick.key);
+
+    assert.deepEqual(keys(100.37), keys(100.41));
+  });
+
+  it('places ticks where their prices are drawn', () => {
+    const scale = createPriceScale(absolute, 100.37, 0, 0.01);
+    scale.ticks(4).forEach(tick => assert.equal(tick.x, scale.toX(Number(tick.text))));
+  });
+
+  it('labels offsets from each slice mid when anchored per slice', () => {
+    const ticks = createPriceScale({ mode: 'bps', range: 10, anchor: 'slice' }, 100, 0, 0.01).ticks(4);
+
+    assert.deepEqual(ticks.map(tick => tick.text), ['-10.0bp', '-5.0bp', '0.0bp', '+5.0bp', '+10.0bp']);
+  });
+});
@@ -0,0 +1,110 @@
+// Price axis (X) anchored on the mid price. The visible range is symmetric around the anchor
+// and defined per mode; x runs from -20 to 20 across it.
+
+export type PriceAxisMode =
+  // Tightest round range that holds the latest books
+  | 'fit'
+  // +/- range in quote currency
+  | 'absolute'
+  // +/- range in basis points of the mid
+  | 'bps'
+  // +/- range in ticks
+  | 'ticks';
+
+// 'reference' plots every slice against the latest mid; 'slice' against each slice's own mid
+export type PriceAnchor = 'reference' | 'slice';
+
+export interface PriceAxisSettings {
+  mode: PriceAxisMode;
+  // Half-width of the range in the mode's unit; unused for 'fit'
+  range: number;
+  anchor: PriceAnchor;
+}
+
+export const DEFAULT_PRICE_AXIS: PriceAxisSettings = { mode: 'fit', range: 10, anchor: 'reference' };
+
+export interface PriceScale {
+  referenceMid: number;
+  halfWidth: number;
+  // Slice mid only matters when anchored per slice; x falls outside [-20, 20] for out-of-range prices
+  toX: (price: number, sliceMid?: number) => number;
+  // Position in [0, 1) across the range, handy for resampling
+  toUnit: (price: number, sliceMid?: number) => number;
+  ticks: (maxTicks?: number) => { key: string; text: string; x: number }[];
+}
+
+// 1, 2 or 5 times a power of ten, at least `value`
+export const niceCeil = (value: number) => {
+  if (!(value > 0)) return 0;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const normalized = value / magnitude;
+  const step = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+  return step * magnitude;
+};
+
+const decimalsFor = (step: number) => Math.max(0, Math.min(8, -Math.floor(Math.log10(step))));
+
+export const createPriceScale = (
+  settings: PriceAxisSettings,
+  referenceMid: number,
+  // Largest distance from the mid among the prices that should fit, for 'fit' mode
+  fitDistance: number,
+  tickSize: number
+): PriceScale => {
+  const halfWidthByMode = {
+    fit: niceCeil(fitDistance),
+    absolute: settings.range,
+    bps: (referenceMid * settings.range) / 10_000,
+    ticks: settings.range * tickSize
+  };
+  // A one-price book or a zero range would otherwise divide by zero
+  const halfWidth = halfWidthByMode[settings.mode] > 0 ? halfWidthByMode[settings.mode] : Math.max(referenceMid * 1e-4, 1e-8);
+
+  const anchorOf = (sliceMid?: number) =>
+    settings.anchor === 'slice' && sliceMid !== undefined && Number.isFinite(sliceMid) ? sliceMid : referenceMid;
+  const toUnit = (price: number, sliceMid?: number) => (price - anchorOf(sliceMid) + halfWidth) / (2 * halfWidth);
+  const toX = (price: number, sliceMid?: number) => toUnit(price, sliceMid) * 40 - 20;
+
+  return {
+    referenceMid,
+    halfWidth,
+    toUnit,
+    toX,
+
+    ticks: (maxTicks: number = 6) => {
+      // Never finer than a tick, so no two labels show the same price
+      const step = Math.max(niceCeil((2 * halfWidth) / maxTicks), tickSize > 0 ? tickSize : 0);
+      const ticks: { key: string; text: string; x: number }[] = [];
+
+      // Absolute prices sit on round multiples of the step, so the labels (and the sprites keyed
+      // by them) stay put while the mid moves underneath
+      if (settings.anchor === 'reference') {
+        const last = Math.floor((referenceMid + halfWidth) / step + 1e-9);
+        for (let index = Math.ceil((referenceMid - halfWidth) / step - 1e-9); index <= last; index++) {
+          const price = index * step;
+          const text = price.toFixed(decimalsFor(step));
+          ticks.push({ key: `reference:${text}`, text, x: toX(price) });
+        }
+        return ticks;
+      }
+
+      // Stepping by index keeps the offsets free of accumulated rounding, so keys stay stable
+      for (let index = Math.ceil(-halfWidth / step - 1e-9); index * step <= halfWidth + step * 1e-9; index++) {
+        const offset = index * step;
+        const x = ((offset + halfWidth) / (2 * halfWidth)) * 40 - 20;
+
+        let text: string;
+        if (settings.mode === 'bps') {
+          text = `${offset > 0 ? '+' : ''}${((offset / referenceMid) * 10_000).toFixed(1)}bp`;
+        } else if (settings.mode === 'ticks') {
+          text = `${offset > 0 ? '+' : ''}${Math.round(offset / tickSize)}t`;
+        } else {
+          text = `${offset > 0 ? '+' : ''}${offset.toFixed(decimalsFor(step))}`;
+        }
+
+        ticks.push({ key: `${settings.anchor}:${text}`, text, x });
+      }
+      return ticks;
+    }
+  };
+};
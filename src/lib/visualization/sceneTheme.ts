@@ -0,0 +1,13 @@
+// Colors of the scene furniture; data colors come from the venues and sides
+export interface SceneTheme {
+  background: number;
+  gridCenter: number;
+  grid: number;
+}
+
+export const SCENE_THEMES: Record<'dark' | 'light', SceneTheme> = {
+  dark: { background: 0x1a1a2e, gridCenter: 0x444444, grid: 0x222222 },
+  light: { background: 0xf8f9fa, gridCenter: 0xaaaaaa, grid: 0xd4d4d8 }
+};
+
+export const sceneTheme = (darkMode: boolean) => SCENE_THEMES[darkMode ? 'dark' : 'light'];
@@ -0,0 +1,92 @@
+import type * as THREE from 'three';
+import { ThreeModule } from './instancedBars';
+import { DepthGrid } from './depthGrid';
+
+export interface DepthSurface {
+  update: (grid: DepthGrid) => void;
+  setVisible: (visible: boolean) => void;
+  dispose: () => void;
+}
+
+// Triangulated height field of resting quantity over price x time.
+// Geometry is reused while the grid keeps its dimensions.
+export const createDepthSurface = (THREE: ThreeModule, scene: THREE.Scene): DepthSurface => {
+  const material = new THREE.MeshLambertMaterial({
+    vertexColors: true,
+    side: THREE.DoubleSide,
+    transparent: true,
+    opacity: 0.9
+  });
+  const mesh = new THREE.Mesh(new THREE.BufferGeometry(), material);
+  mesh.receiveShadow = true;
+  mesh.userData = { isDepthSurface: true };
+  scene.add(mesh);
+
+  let rows = 0;
+  let bins = 0;
+  const color = new THREE.Color();
+
+  const allocate = (nextRows: number, nextBins: number) => {
+    rows = nextRows;
+    bins = nextBins;
+    mesh.geometry.dispose();
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(rows * bins * 3), 3).setUsage(THREE.DynamicDrawUsage));
+    geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(rows * bins * 3), 3).setUsage(THREE.DynamicDrawUsage));
+
+    const indices: number[] = [];
+    for (let row = 0; row < rows - 1; row++) {
+      for (let bin = 0; bin < bins - 1; bin++) {
+        const a = row * bins + bin;
+        const b = a + 1;
+        const c = a + bins;
+        const d = c + 1;
+        indices.push(a, c, b, b, c, d);
+      }
+    }
+    geometry.setIndex(indices);
+    mesh.geometry = geometry;
+  };
+
+  return {
+    update: (grid: DepthGrid) => {
+      if (grid.rows !== rows || grid.bins !== bins) allocate(grid.rows, grid.bins);
+
+      const positions = mesh.geometry.getAttribute('position') as THREE.BufferAttribute;
+      const colors = mesh.geometry.getAttribute('color') as THREE.BufferAttribute;
+      const maxQuantity = grid.maxQuantity || 1;
+
+      for (let row = 0; row < rows; row++) {
+        const z = ((row + 0.5) / rows) * 40 - 20;
+        for (let bin = 0; bin < bins; bin++) {
+          const cell = row * bins + bin;
+          const bid = grid.bidQuantity[cell];
+          const ask = grid.askQuantity[cell];
+          const ratio = (bid + ask) / maxQuantity;
+
+          positions.setXYZ(cell, ((bin + 0.5) / bins) * 40 - 20, ratio * 15, z);
+
+          if (bid + ask === 0) color.setHSL(0.6, 0.1, 0.25);
+          else color.setHSL(bid >= ask ? 0.33 : 0, 0.8, 0.35 + ratio * 0.45);
+          colors.setXYZ(cell, color.r, color.g, color.b);
+        }
+      }
+
+      positions.needsUpdate = true;
+      colors.needsUpdate = true;
+      mesh.geometry.computeVertexNormals();
+      mesh.geometry.computeBoundingSphere();
+    },
+
+    setVisible: (visible: boolean) => {
+      mesh.visible = visible;
+    },
+
+    dispose: () => {
+      scene.remove(mesh);
+      mesh.geometry.dispose();
+      material.dispose();
+    }
+  };
+};
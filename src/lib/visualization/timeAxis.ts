@@ -0,0 +1,56 @@
+import { HistorySettings } from '@/types/orderbook';
+
+export const WINDOW_OPTIONS = [
+  { label: '30s', value: 30_000 },
+  { label: '1m', value: 60_000 },
+  { label: '5m', value: 300_000 },
+  { label: '15m', value: 900_000 },
+  { label: '1h', value: 3_600_000 }
+];
+
+export const SAMPLE_OPTIONS = [
+  { label: '100ms', value: 100 },
+  { label: '250ms', value: 250 },
+  { label: '500ms', value: 500 },
+  { label: '1s', value: 1000 },
+  { label: '5s', value: 5000 },
+  { label: '15s', value: 15_000 }
+];
+
+// Levels per side kept in each history sample
+export const DEPTH_OPTIONS = [10, 20, 50, 100];
+
+// Beyond this many slices per window the scene gets sluggish, so finer sampling is disabled
+export const MAX_SLICES = 3600;
+
+// Switches the window, coarsening the sampling if needed to keep the slice count bounded
+export const withWindow = (history: HistorySettings, windowMs: number): HistorySettings => ({
+  ...history,
+  windowMs,
+  sampleIntervalMs: Math.max(
+    history.sampleIntervalMs,
+    SAMPLE_OPTIONS.find(option => windowMs / option.value <= MAX_SLICES)?.value ?? history.sampleIntervalMs
+  )
+});
+
+const TIME_STEPS = [
+  100, 250, 500, 1000, 2000, 5000, 10_000, 15_000, 30_000,
+  60_000, 120_000, 300_000, 600_000, 900_000, 1_800_000, 3_600_000
+];
+
+// Smallest round step that yields at most `maxTicks` ticks over the span
+export const niceTimeStep = (spanMs: number, maxTicks: number = 5) =>
+  TIME_STEPS.find(step => spanMs / step <= maxTicks) ?? TIME_STEPS[TIME_STEPS.length - 1];
+
+// Tick timestamps on multiples of the step, so they stay put while the window scrolls
+export const timeTicks = (startMs: number, endMs: number, stepMs: number) => {
+  const ticks: number[] = [];
+  for (let tick = Math.ceil(startMs / stepMs) * stepMs; tick <= endMs; tick += stepMs) ticks.push(tick);
+  return ticks;
+};
+
+export const formatTickTime = (timestamp: number, stepMs: number) => {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString([], { hour12: false });
+  return stepMs < 1000 ? `${time}.${Math.floor(date.getMilliseconds() / 100)}` : time;
+};
@@ -0,0 +1,52 @@
+export interface OrderbookLevel {
+  price: number;
+  quantity: number;
+  timestamp: number;
+}
+
+export interface OrderbookData {
+  bids: OrderbookLevel[];
+  asks: OrderbookLevel[];
+  lastUpdateId: number;
+}
+
+// A public trade; side is the aggressor's, so 'buy' lifted an ask and 'sell' hit a bid
+export interface Trade {
+  price: number;
+  quantity: number;
+  side: 'buy' | 'sell';
+  timestamp: number;
+}
+
+export interface Venue {
+  id: string;
+  name: string;
+  color: string;
+  enabled: boolean;
+}
+
+export interface HistoricalData {
+  timestamp: number;
+  bids: OrderbookLevel[];
+  asks: OrderbookLevel[];
+}
+
+// One venue's live book as handed to the visualization
+export interface VenueOrderbook {
+  venue: Venue;
+  orderbook: OrderbookData;
+  historicalData: HistoricalData[];
+}
+
+// Shape of the time axis: how far back it reaches, how often the book is sampled and how deep
+export interface HistorySettings {
+  windowMs: number;
+  sampleIntervalMs: number;
+  depth: number;
+}
+
+export const DEFAULT_HISTORY_SETTINGS: HistorySettings = {
+  windowMs: 60_000,
+  sampleIntervalMs: 1000,
+  depth: 20
+};
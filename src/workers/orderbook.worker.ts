@@ -0,0 +1,462 @@
+import { DEFAULT_HISTORY_SETTINGS, Trade } from '@/types/orderbook';
+import { VenueEndpoints, getVenueAdapter, setEndpointOverrides } from '@/lib/venues';
+import { OrderBook } from '@/lib/orderbook/book';
+import { VenueFeedHandlers, VenueFeedStatus, createReplayFeed, createVenueFeedStatus, openVenueFeed } from '@/lib/orderbook/venueFeed';
+import { FeedRecord, Recording, parseRecording, serializeEvent, serializeHeader } from '@/lib/orderbook/recording';
+import { now, resetClock, setClock } from '@/lib/clock';
+import {
+  PackedSnapshot,
+  ReplayStatus,
+  VenueFrame,
+  WorkerEvent,
+  WorkerRequest,
+  frameTransferables,
+  packLevels,
+  packTrades
+} from './protocol';
+
+// Owns every venue connection and order book off the main thread, posting
+// throttled frames back to the UI. Sessions either run live feeds or replay a
+// recording; both go through the same book building.
+
+interface VenueSession {
+  close: () => void;
+  status: VenueFeedStatus;
+  book: OrderBook | null;
+  bookChanged: boolean;
+  statusChanged: boolean;
+  history: PackedSnapshot[];
+  historyReset: boolean;
+  trades: Trade[];
+  // Replay sessions only: feeds the next recorded event in
+  apply?: (record: FeedRecord) => void;
+}
+
+interface Recorder {
+  symbol: string;
+  startedAt: number;
+  venueIds: Set<string>;
+  lines: string[];
+  // Characters held in `lines`
+  size: number;
+}
+
+interface Replay {
+  recording: Recording;
+  // Next event to apply
+  cursor: number;
+  position: number;
+  playing: boolean;
+  speed: number;
+  // Next point on the sampling grid
+  nextSampleAt: number;
+  // Trades before this belong to history a seek skipped over
+  tradesFrom: number;
+  lastTick: number;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+const sessions = new Map<string, VenueSession>();
+let symbol = '';
+// Latest subscription from the UI; a replay leaves it untouched so exiting can restore it
+let liveSymbol = '';
+let liveVenueIds: string[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | undefined;
+let sampleIntervalMs = DEFAULT_HISTORY_SETTINGS.sampleIntervalMs;
+let depth = DEFAULT_HISTORY_SETTINGS.depth;
+let windowMs = DEFAULT_HISTORY_SETTINGS.windowMs;
+let sampleTimer: ReturnType<typeof setTimeout> | undefined;
+let recorder: Recorder | null = null;
+let replay: Replay | null = null;
+
+// Minimum time between two frames posted back to the UI
+const FRAME_INTERVAL_MS = 100;
+const REPLAY_TICK_MS = 100;
+// A recording is held in memory until it stops; past this many characters it stops on its own
+const MAX_RECORDING_CHARS = 64 * 1024 * 1024;
+
+const flush = () => {
+  flushTimer = undefined;
+  const venues: VenueFrame[] = [];
+
+  sessions.forEach((session, venueId) => {
+    if (!session.bookChanged && !session.statusChanged && session.history.length === 0 && session.trades.length === 0) return;
+
+    const book = session.bookChanged && session.book ? session.book.snapshot() : null;
+    venues.push({
+      venueId,
+      status: session.status,
+      book: book ? { bids: packLevels(book.bids), asks: packLevels(book.asks), lastUpdateId: book.lastUpdateId } : null,
+      history: session.history,
+      historyReset: session.historyReset,
+      trades: packTrades(session.trades)
+    });
+
+    session.bookChanged = false;
+    session.statusChanged = false;
+    session.history = [];
+    session.historyReset = false;
+    session.trades = [];
+  });
+
+  if (venues.length === 0) return;
+  const event: WorkerEvent = { type: 'frame', symbol, venues };
+  self.postMessage(event, { transfer: frameTransferables(venues) });
+};
+
+const scheduleFlush = () => {
+  if (flushTimer === undefined) flushTimer = setTimeout(flush, FRAME_INTERVAL_MS);
+};
+
+const recordEvent = (venueId: string, record: FeedRecord) => {
+  if (!recorder) return;
+  const line = serializeEvent({ time: now(), venueId, record });
+  recorder.venueIds.add(venueId);
+  recorder.lines.push(line);
+  recorder.size += line.length;
+  if (recorder.size >= MAX_RECORDING_CHARS) stopRecording();
+};
+
+const createSession = (): VenueSession => ({
+  close: () => {},
+  status: createVenueFeedStatus(),
+  book: null,
+  bookChanged: false,
+  statusChanged: true,
+  history: [],
+  historyReset: false,
+  trades: []
+});
+
+const sessionHandlers = (session: VenueSession, venueId: string): VenueFeedHandlers => ({
+  onBookChange: book => {
+    session.book = book;
+    session.bookChanged = true;
+    scheduleFlush();
+  },
+  onStatusChange: status => {
+    session.status = status;
+    session.statusChanged = true;
+    scheduleFlush();
+  },
+  onTrades: trades => {
+    const from = replay?.tradesFrom ?? -Infinity;
+    session.trades.push(...trades.filter(trade => trade.timestamp >= from));
+    scheduleFlush();
+  },
+  onRecord: record => recordEvent(venueId, record)
+});
+
+const openSession = (venueId: string) => {
+  const session = createSession();
+  session.close = openVenueFeed(getVenueAdapter(venueId), symbol, sessionHandlers(session, venueId));
+  sessions.set(venueId, session);
+};
+
+const openReplaySession = (venueId: string) => {
+  const session = createSession();
+  const feed = createReplayFeed(getVenueAdapter(venueId), sessionHandlers(session, venueId));
+  session.close = feed.close;
+  session.apply = feed.apply;
+  session.historyReset = true;
+  sessions.set(venueId, session);
+};
+
+const closeSessions = () => {
+  sessions.forEach(session => session.close());
+  sessions.clear();
+};
+
+const takeSample = (timestamp: number) => {
+  sessions.forEach(session => {
+    if (!session.book || !session.status.synced) return;
+    session.history.push({
+      timestamp,
+      bids: packLevels(session.book.bids.top(depth)),
+      asks: packLevels(session.book.asks.top(depth))
+    });
+  });
+  scheduleFlush();
+};
+
+// Every venue is sampled on the same wall-clock grid, so slices line up across venues
+const sample = () => {
+  takeSample(Math.floor(Date.now() / sampleIntervalMs) * sampleIntervalMs);
+  sampleTimer = setTimeout(sample, sampleIntervalMs - (Date.now() % sampleIntervalMs));
+};
+
+const startRecording = () => {
+  if (recorder) return;
+  recorder = { symbol, startedAt: now(), venueIds: new Set(), lines: [], size: 0 };
+
+  // Feeds that are already live start the recording from their current book
+  sessions.forEach((session, venueId) => {
+    if (!session.status.connected) return;
+    recordEvent(venueId, { kind: 'open' });
+    if (!session.book || !session.status.synced) return;
+
+    const { bids, asks, lastUpdateId } = session.book;
+    recordEvent(venueId, {
+      kind: 'snapshot',
+      snapshot: {
+        bids: bids.top().map(level => [level.price, level.quantity]),
+        asks: asks.top().map(level => [level.price, level.quantity]),
+        lastUpdateId
+      }
+    });
+  });
+};
+
+const stopRecording = () => {
+  if (!recorder) return;
+  const header = {
+    type: 'header' as const,
+    version: 1 as const,
+    symbol: recorder.symbol,
+    venueIds: [...recorder.venueIds],
+    startedAt: recorder.startedAt,
+    endedAt: now()
+  };
+  const text = [serializeHeader(header), ...recorder.lines].join('\n') + '\n';
+  recorder = null;
+
+  const event: WorkerEvent = { type: 'recording', header, text };
+  self.postMessage(event);
+};
+
+const postReplayStatus = (error?: string) => {
+  const status: ReplayStatus | null = replay && {
+    symbol,
+    venueIds: replay.recording.header.venueIds,
+    start: replay.recording.header.startedAt,
+    end: replay.recording.header.endedAt,
+    position: replay.position,
+    playing: replay.playing,
+    speed: replay.speed
+  };
+  const event: WorkerEvent = { type: 'replay', status, error };
+  self.postMessage(event);
+};
+
+const alignUp = (time: number) => Math.ceil(time / sampleIntervalMs) * sampleIntervalMs;
+
+// Samples every grid point up to and including `time`, with the books as they stood there
+const sampleUntil = (active: Replay, time: number) => {
+  while (active.nextSampleAt <= time) {
+    active.position = active.nextSampleAt;
+    takeSample(active.nextSampleAt);
+    active.nextSampleAt += sampleIntervalMs;
+  }
+};
+
+// Applies recorded events in order up to `time`, moving the virtual clock along with them
+const advanceReplay = (active: Replay, time: number) => {
+  const { events } = active.recording;
+  while (active.cursor < events.length && events[active.cursor].time <= time) {
+    const event = events[active.cursor++];
+    sampleUntil(active, event.time);
+    active.position = event.time;
+    sessions.get(event.venueId)?.apply?.(event.record);
+  }
+  sampleUntil(active, time);
+  active.position = time;
+};
+
+// Only the window before the target is sampled; everything earlier just rebuilds the books
+const seekReplay = (active: Replay, time: number, rebuild = false) => {
+  const { startedAt, endedAt } = active.recording.header;
+  const target = Math.min(Math.max(time, startedAt), endedAt);
+
+  if (rebuild || target < active.position) {
+    closeSessions();
+    active.recording.header.venueIds.forEach(openReplaySession);
+    active.cursor = 0;
+    active.position = startedAt;
+    active.nextSampleAt = alignUp(startedAt);
+    active.tradesFrom = -Infinity;
+  }
+
+  const windowStart = target - windowMs;
+  active.nextSampleAt = Math.max(active.nextSampleAt, alignUp(windowStart));
+  active.tradesFrom = Math.max(active.tradesFrom, windowStart);
+  advanceReplay(active, target);
+  scheduleFlush();
+};
+
+const tick = () => {
+  if (!replay || !replay.playing) return;
+  const active = replay;
+
+  const elapsed = performance.now() - active.lastTick;
+  active.lastTick += elapsed;
+  const end = active.recording.header.endedAt;
+  advanceReplay(active, Math.min(active.position + elapsed * active.speed, end));
+
+  if (active.position >= end) active.playing = false;
+  postReplayStatus();
+  if (active.playing) active.timer = setTimeout(tick, REPLAY_TICK_MS);
+};
+
+const controlReplay = ({ playing, speed, seekTo }: { playing?: boolean; speed?: number; seekTo?: number }) => {
+  if (!replay) return;
+  const active = replay;
+
+  if (speed !== undefined) active.speed = speed;
+  if (seekTo !== undefined) seekReplay(active, seekTo);
+  if (playing !== undefined && playing !== active.playing) {
+    // Playing from the very end starts over
+    if (playing && active.position >= active.recording.header.endedAt) seekReplay(active, active.recording.header.startedAt, true);
+    active.playing = playing;
+    clearTimeout(active.timer);
+    if (playing) {
+      active.lastTick = performance.now();
+      active.timer = setTimeout(tick, REPLAY_TICK_MS);
+    }
+  }
+  postReplayStatus();
+};
+
+const loadReplay = (text: string) => {
+  let recording: Recording;
+  try {
+    recording = parseRecording(text);
+  } catch (error) {
+    postReplayStatus(error instanceof Error ? error.message : 'Unreadable recording');
+    return;
+  }
+
+  stopRecording();
+  clearTimeout(sampleTimer);
+  clearTimeout(replay?.timer);
+  closeSessions();
+
+  const { header } = recording;
+  symbol = header.symbol;
+  replay = {
+    recording,
+    cursor: 0,
+    position: header.startedAt,
+    playing: false,
+    speed: 1,
+    nextSampleAt: alignUp(header.startedAt),
+    tradesFrom: -Infinity,
+    lastTick: 0
+  };
+  const active = replay;
+  setClock(() => active.position);
+
+  try {
+    seekReplay(active, header.startedAt, true);
+  } catch (error) {
+    // Back on the live feeds rather than stuck between the two
+    returnToLive();
+    postReplayStatus(error instanceof Error ? error.message : 'Recording could not be replayed');
+    return;
+  }
+  // Frames only go out on the next flush, so the UI still switches over before they arrive
+  postReplayStatus();
+};
+
+// Reopens the feeds of the latest subscription, telling the UI the replay is over
+const returnToLive = () => {
+  clearTimeout(replay?.timer);
+  replay = null;
+  closeSessions();
+  resetClock();
+  postReplayStatus();
+
+  symbol = '';
+  subscribe(liveSymbol, liveVenueIds);
+  sample();
+};
+
+const exitReplay = () => {
+  if (replay) returnToLive();
+};
+
+const configure = (nextSampleIntervalMs: number, nextDepth: number, nextWindowMs: number) => {
+  const resample = nextSampleIntervalMs !== sampleIntervalMs || nextDepth !== depth;
+  sampleIntervalMs = nextSampleIntervalMs;
+  depth = nextDepth;
+  windowMs = nextWindowMs;
+  if (!resample) return;
+
+  if (replay) {
+    // Rebuilds the visible window on the new grid
+    seekReplay(replay, replay.position, true);
+    return;
+  }
+
+  sessions.forEach(session => {
+    session.history = [];
+    session.historyReset = true;
+  });
+
+  clearTimeout(sampleTimer);
+  sample();
+};
+
+const setEndpoints = (overrides: Record<string, VenueEndpoints>) => {
+  setEndpointOverrides(overrides);
+  if (replay) return;
+
+  const venueIds = [...sessions.keys()];
+  closeSessions();
+  venueIds.forEach(openSession);
+  scheduleFlush();
+};
+
+const subscribe = (nextSymbol: string, venueIds: string[]) => {
+  liveSymbol = nextSymbol;
+  liveVenueIds = venueIds;
+  if (replay) return;
+
+  // A new symbol invalidates every feed, and ends a recording of the old one
+  if (nextSymbol !== symbol) {
+    stopRecording();
+    closeSessions();
+    symbol = nextSymbol;
+  }
+
+  const enabled = new Set(venueIds);
+  sessions.forEach((session, venueId) => {
+    if (enabled.has(venueId)) return;
+    session.close();
+    sessions.delete(venueId);
+  });
+
+  enabled.forEach(venueId => {
+    if (!sessions.has(venueId)) openSession(venueId);
+  });
+  scheduleFlush();
+};
+
+sample();
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'subscribe':
+      subscribe(request.symbol, request.venueIds);
+      break;
+    case 'endpoints':
+      setEndpoints(request.overrides);
+      break;
+    case 'configure':
+      configure(request.sampleIntervalMs, request.depth, request.windowMs);
+      break;
+    case 'record':
+      if (request.recording && !replay) startRecording();
+      else if (!request.recording) stopRecording();
+      break;
+    case 'loadReplay':
+      loadReplay(request.text);
+      break;
+    case 'controlReplay':
+      controlReplay(request);
+      break;
+    case 'exitReplay':
+      exitReplay();
+      break;
+  }
+};
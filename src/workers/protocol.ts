@@ -0,0 +1,136 @@
+import { HistoricalData, OrderbookData, OrderbookLevel, Trade } from '@/types/orderbook';
+import { VenueFeedStatus } from '@/lib/orderbook/venueFeed';
+import { RecordingHeader } from '@/lib/orderbook/recording';
+import { VenueEndpoints } from '@/lib/venues';
+
+// Message protocol between useOrderbookWebSocket and orderbook.worker.
+// Levels cross the boundary packed as [price, quantity, timestamp] triples in a
+// Float64Array so their buffers can be transferred instead of structured-cloned.
+
+export type PackedLevels = Float64Array;
+
+// [price, quantity, side (1 buy, -1 sell), timestamp] per trade
+export type PackedTrades = Float64Array;
+
+export interface PackedSnapshot {
+  timestamp: number;
+  bids: PackedLevels;
+  asks: PackedLevels;
+}
+
+// UI -> worker
+export type WorkerRequest =
+  // Replaces the current subscription; feeds for venues that stay enabled keep running
+  | { type: 'subscribe'; symbol: string; venueIds: string[] }
+  // Venues to fetch from somewhere other than the exchange; open feeds reconnect
+  | { type: 'endpoints'; overrides: Record<string, VenueEndpoints> }
+  // Books are sampled into history on a fixed clock, independent of message rate.
+  // The window only bounds how much history a replay seek rebuilds.
+  | { type: 'configure'; sampleIntervalMs: number; depth: number; windowMs: number }
+  // Stopping posts the recording back as a 'recording' event
+  | { type: 'record'; recording: boolean }
+  // Closes the live feeds and replays an NDJSON recording, paused at its start
+  | { type: 'loadReplay'; text: string }
+  | { type: 'controlReplay'; playing?: boolean; speed?: number; seekTo?: number }
+  // Back to the live feeds of the latest subscription
+  | { type: 'exitReplay' };
+
+export interface ReplayStatus {
+  symbol: string;
+  venueIds: string[];
+  start: number;
+  end: number;
+  position: number;
+  playing: boolean;
+  speed: number;
+}
+
+export interface VenueFrame {
+  venueId: string;
+  status: VenueFeedStatus;
+  // Full book, or null when it hasn't changed since the previous frame
+  book: { bids: PackedLevels; asks: PackedLevels; lastUpdateId: number } | null;
+  // Samples taken since the previous frame
+  history: PackedSnapshot[];
+  // Sampling settings changed or a replay seeked: history and trades start over from this frame
+  historyReset: boolean;
+  // Trades since the previous frame
+  trades: PackedTrades;
+}
+
+// Worker -> UI
+export type WorkerEvent =
+  | { type: 'frame'; symbol: string; venues: VenueFrame[] }
+  | { type: 'recording'; header: RecordingHeader; text: string }
+  // Null status: the worker is on live feeds (again)
+  | { type: 'replay'; status: ReplayStatus | null; error?: string };
+
+const FIELDS = 3;
+
+export const packLevels = (levels: OrderbookLevel[]): PackedLevels => {
+  const packed = new Float64Array(levels.length * FIELDS);
+  levels.forEach((level, index) => {
+    packed[index * FIELDS] = level.price;
+    packed[index * FIELDS + 1] = level.quantity;
+    packed[index * FIELDS + 2] = level.timestamp;
+  });
+  return packed;
+};
+
+export const unpackLevels = (packed: PackedLevels): OrderbookLevel[] => {
+  const levels: OrderbookLevel[] = new Array(packed.length / FIELDS);
+  for (let index = 0; index < levels.length; index++) {
+    levels[index] = {
+      price: packed[index * FIELDS],
+      quantity: packed[index * FIELDS + 1],
+      timestamp: packed[index * FIELDS + 2]
+    };
+  }
+  return levels;
+};
+
+const TRADE_FIELDS = 4;
+
+export const packTrades = (trades: Trade[]): PackedTrades => {
+  const packed = new Float64Array(trades.length * TRADE_FIELDS);
+  trades.forEach((trade, index) => {
+    packed[index * TRADE_FIELDS] = trade.price;
+    packed[index * TRADE_FIELDS + 1] = trade.quantity;
+    packed[index * TRADE_FIELDS + 2] = trade.side === 'buy' ? 1 : -1;
+    packed[index * TRADE_FIELDS + 3] = trade.timestamp;
+  });
+  return packed;
+};
+
+export const unpackTrades = (packed: PackedTrades): Trade[] => {
+  const trades: Trade[] = new Array(packed.length / TRADE_FIELDS);
+  for (let index = 0; index < trades.length; index++) {
+    trades[index] = {
+      price: packed[index * TRADE_FIELDS],
+      quantity: packed[index * TRADE_FIELDS + 1],
+      side: packed[index * TRADE_FIELDS + 2] > 0 ? 'buy' : 'sell',
+      timestamp: packed[index * TRADE_FIELDS + 3]
+    };
+  }
+  return trades;
+};
+
+export const unpackBook = (book: NonNullable<VenueFrame['book']>): OrderbookData => ({
+  bids: unpackLevels(book.bids),
+  asks: unpackLevels(book.asks),
+  lastUpdateId: book.lastUpdateId
+});
+
+export const unpackSnapshot = (snapshot: PackedSnapshot): HistoricalData => ({
+  timestamp: snapshot.timestamp,
+  bids: unpackLevels(snapshot.bids),
+  asks: unpackLevels(snapshot.asks)
+});
+
+// Buffers to hand over with postMessage
+export const frameTransferables = (venues: VenueFrame[]): ArrayBuffer[] =>
+  venues.flatMap(venue => [
+    ...(venue.book ? [venue.book.bids.buffer, venue.book.asks.buffer] : []),
+    ...venue.history.flatMap(snapshot => [snapshot.bids.buffer, snapshot.asks.buffer]),
+    venue.trades.buffer
+  ]) as ArrayBuffer[];